@@ -0,0 +1,37 @@
+// Service worker for alert push notifications. Payloads come from
+// renderAlertPush in server/notifications/templates.ts.
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  const { title, body, url, tag, severity } = event.data.json();
+
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body,
+      tag,
+      renotify: true,
+      requireInteraction: severity === 'warning',
+      data: { url },
+    })
+  );
+});
+
+// Focus an open DisasterTrack tab on the alert's page, or open a new one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data && event.notification.data.url;
+  if (!url) return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const target = new URL(url, self.location.origin);
+      const existing = windows.find((client) => new URL(client.url).origin === target.origin);
+
+      if (existing) {
+        return existing.navigate(target.href).then((client) => (client || existing).focus());
+      }
+      return self.clients.openWindow(target.href);
+    })
+  );
+});
@@ -5,20 +5,26 @@ import Dashboard from "@/pages/Dashboard";
 import AlertsPage from "@/pages/AlertsPage";
 import ResourcesPage from "@/pages/ResourcesPage";
 import SettingsPage from "@/pages/SettingsPage";
+import LoginPage from "@/pages/LoginPage";
+import RegisterPage from "@/pages/RegisterPage";
 import NotFound from "@/pages/not-found";
 import Header from "@/components/layout/Header";
 import AlertBanner from "@/components/layout/AlertBanner";
+import ProtectedRoute from "@/components/auth/ProtectedRoute";
 import { Disaster } from "@/lib/types";
 import { useQuery } from "@tanstack/react-query";
+import { useDisasterStream } from "@/hooks/use-disaster-stream";
 
 function App() {
   const [location] = useLocation();
   const [currentAlert, setCurrentAlert] = useState<Disaster | null>(null);
 
-  const { data: disasters } = useQuery({
+  const { data: disasters } = useQuery<Disaster[]>({
     queryKey: ['/api/disasters'],
-    refetchInterval: 60000, // Refresh every minute to check for new disasters
   });
+  
+  // New warnings are pushed by the server as they are ingested
+  useDisasterStream(['/api/disasters'], {});
 
   useEffect(() => {
     // Set the most severe warning as current alert if available
@@ -49,7 +55,9 @@ function App() {
         <Route path="/" component={Dashboard} />
         <Route path="/alerts" component={AlertsPage} />
         <Route path="/resources" component={ResourcesPage} />
-        <Route path="/settings" component={SettingsPage} />
+        <ProtectedRoute path="/settings" component={SettingsPage} />
+        <Route path="/login" component={LoginPage} />
+        <Route path="/register" component={RegisterPage} />
         <Route component={NotFound} />
       </Switch>
       
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertType, AlertHistoryItem, AlertHistoryPage } from '@/lib/types';
+import { getHazard } from '@shared/hazards';
+import { getAlertHistory, markAlertRead, markAllAlertsRead } from '@/lib/api';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const PAGE_SIZE = 20;
+
+const getAlertTypeColor = (alertType: AlertType) => {
+  switch (alertType) {
+    case 'warning': return 'bg-red-500 text-white';
+    case 'watch': return 'bg-amber-500 text-white';
+    case 'advisory': return 'bg-green-500 text-white';
+    default: return 'bg-gray-500 text-white';
+  }
+};
+
+const AlertInbox = () => {
+  const [page, setPage] = useState(1);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [alertType, setAlertType] = useState<AlertType | 'all'>('all');
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const filters = {
+    page,
+    pageSize: PAGE_SIZE,
+    unread: unreadOnly,
+    alertTypes: alertType === 'all' ? undefined : [alertType]
+  };
+
+  const { data, isLoading } = useQuery<AlertHistoryPage>({
+    queryKey: ['/api/alerts/history', filters],
+    queryFn: () => getAlertHistory(filters),
+    enabled: !!user,
+  });
+
+  // Read state shows up in every page of the inbox and in the header badge
+  const refreshInbox = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/alerts/history'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/alerts/history/unread-count'] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: markAlertRead,
+    onSuccess: refreshInbox,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: markAllAlertsRead,
+    onSuccess: refreshInbox,
+    onError: (error) => {
+      toast({
+        title: "Failed to mark alerts as read",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleOpen = (alert: AlertHistoryItem) => {
+    if (!alert.read) {
+      markReadMutation.mutate(alert.id);
+    }
+  };
+
+  // Filters change the result set, so start again from the first page
+  const handleUnreadChange = (value: string) => {
+    setUnreadOnly(value === 'unread');
+    setPage(1);
+  };
+
+  const handleAlertTypeChange = (value: string) => {
+    setAlertType(value as AlertType | 'all');
+    setPage(1);
+  };
+
+  if (!user) {
+    return (
+      <div className="text-center py-12">
+        <span className="material-icons text-5xl text-gray-400 mb-4">inbox</span>
+        <h3 className="text-xl font-medium mb-2">Your Alert Inbox</h3>
+        <p className="text-gray-500 mb-4">
+          Log in to see the alerts sent for your saved locations.
+        </p>
+        <Button asChild>
+          <Link href="/login">Log In</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const alerts = data?.alerts ?? [];
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-2">
+          <Select value={unreadOnly ? 'unread' : 'all'} onValueChange={handleUnreadChange}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All messages</SelectItem>
+              <SelectItem value="unread">Unread only</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={alertType} onValueChange={handleAlertTypeChange}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              <SelectItem value="warning">Warnings</SelectItem>
+              <SelectItem value="watch">Watches</SelectItem>
+              <SelectItem value="advisory">Advisories</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => markAllReadMutation.mutate()}
+          disabled={!data?.unreadCount || markAllReadMutation.isPending}
+        >
+          <span className="material-icons text-sm mr-1">done_all</span>
+          Mark all as read
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-20 w-full" />
+          ))}
+        </div>
+      ) : alerts.length === 0 ? (
+        <div className="text-center py-12">
+          <span className="material-icons text-5xl text-gray-400 mb-4">inbox</span>
+          <h3 className="text-xl font-medium mb-2">No Alerts Yet</h3>
+          <p className="text-gray-500">
+            {unreadOnly || alertType !== 'all'
+              ? 'No alerts in your inbox match the current filter.'
+              : 'Alerts for disasters near your saved locations will appear here.'}
+          </p>
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-0 divide-y divide-gray-200 dark:divide-gray-700">
+            {alerts.map((alert) => (
+              <button
+                key={alert.id}
+                className={`w-full text-left flex items-start p-4 transition hover:bg-gray-50 dark:hover:bg-gray-800 ${
+                  alert.read ? '' : 'bg-blue-50 dark:bg-blue-900/10'
+                }`}
+                onClick={() => handleOpen(alert)}
+              >
+                <span className="material-icons mr-3 text-gray-500">{getHazard(alert.disasterType).icon}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex justify-between items-start gap-2 mb-1">
+                    <h3 className={`truncate ${alert.read ? '' : 'font-semibold'}`}>{alert.message}</h3>
+                    <Badge className={getAlertTypeColor(alert.alertType)}>
+                      {alert.alertType.charAt(0).toUpperCase() + alert.alertType.slice(1)}
+                    </Badge>
+                  </div>
+                  <div className="flex justify-between items-center text-xs text-gray-500">
+                    <span className="flex items-center">
+                      <span className="material-icons text-xs mr-1">place</span>
+                      {alert.distance !== null
+                        ? `${alert.distance.toFixed(1)} km from ${alert.location}`
+                        : alert.location}
+                    </span>
+                    <span>{new Date(alert.timestamp).toLocaleString()}</span>
+                  </div>
+                </div>
+                {!alert.read && (
+                  <span className="ml-3 mt-2 w-2 h-2 rounded-full bg-primary flex-shrink-0" aria-label="Unread" />
+                )}
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {data && data.total > data.pageSize && (
+        <div className="flex items-center justify-between text-sm text-gray-500">
+          <span>Page {page} of {totalPages}</span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertInbox;
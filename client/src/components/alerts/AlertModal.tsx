@@ -1,5 +1,6 @@
 import { useEffect } from 'react';
 import { Disaster } from '@/lib/types';
+import { getHazard } from '@shared/hazards';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -22,15 +23,7 @@ const AlertModal = ({ disaster, isOpen, onClose, onViewOnMap }: AlertModalProps)
 
   if (!disaster) return null;
 
-  const getDisasterIcon = () => {
-    switch (disaster.type) {
-      case 'earthquake': return 'vibration';
-      case 'flood': return 'water';
-      case 'storm': return 'bolt';
-      case 'wildfire': return 'local_fire_department';
-      default: return 'warning';
-    }
-  };
+  const hazard = getHazard(disaster.disasterType);
 
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleString('en-US', {
@@ -55,8 +48,8 @@ const AlertModal = ({ disaster, isOpen, onClose, onViewOnMap }: AlertModalProps)
               transition={{ duration: 0.3 }}
             >
               <div className="bg-red-500 text-white p-4 rounded-t-lg -mt-6 -mx-6 mb-4 flex items-center">
-                <span className="material-icons text-2xl mr-2">warning</span>
-                <h2 className="text-xl font-bold">Emergency Alert</h2>
+                <span className="material-icons text-2xl mr-2">{hazard.icon}</span>
+                <h2 className="text-xl font-bold">{hazard.label} Emergency Alert</h2>
               </div>
               
               <DialogHeader>
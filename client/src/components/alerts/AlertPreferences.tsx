@@ -3,49 +3,56 @@ import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { saveAlertPreferences, getAlertPreferences } from '@/lib/api';
+import { useAuth } from '@/hooks/use-auth';
+import { Link } from 'wouter';
+import { updateAlertPreferences, getAlertPreferences } from '@/lib/api';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { DisasterType } from '@/lib/types';
+import { AlertPreferences as AlertPreferencesType } from '@/lib/types';
+import { hazardCategories } from '@shared/hazards';
 
 const AlertPreferences = () => {
-  const [preferences, setPreferences] = useState({
+  const [preferences, setPreferences] = useState<AlertPreferencesType>({
     emergencyWarnings: true,
     watchesAdvisories: true,
     smsNotifications: false,
     emailAlerts: true,
-    disasterTypes: [
-      DisasterType.Earthquake, 
-      DisasterType.Storm, 
-      DisasterType.Flood, 
-      DisasterType.Wildfire
-    ],
+    disasterTypes: hazardCategories.map(hazard => hazard.id),
     notificationRadius: 50 // km
   });
   
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user } = useAuth();
 
-  const { data, isLoading } = useQuery({
+  const { data, isLoading, isError } = useQuery({
     queryKey: ['/api/preferences'],
     queryFn: getAlertPreferences,
-    onSuccess: (data) => {
-      if (data) {
-        setPreferences(data);
-      }
-    },
-    onError: () => {
+    enabled: !!user,
+  });
+
+  // Show the stored preferences once they arrive
+  useEffect(() => {
+    if (data) {
+      setPreferences(data);
+    }
+  }, [data]);
+
+  useEffect(() => {
+    if (isError) {
       toast({
         title: "Could not load preferences",
         description: "Using default notification settings",
         variant: "destructive",
       });
     }
-  });
+  }, [isError, toast]);
 
+  // This widget only edits the notification switches, so send just those
   const mutation = useMutation({
-    mutationFn: (newPreferences: typeof preferences) => saveAlertPreferences(newPreferences),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/preferences'] });
+    mutationFn: ({ emergencyWarnings, watchesAdvisories, smsNotifications, emailAlerts }: AlertPreferencesType) => 
+      updateAlertPreferences({ emergencyWarnings, watchesAdvisories, smsNotifications, emailAlerts }),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['/api/preferences'], saved);
       toast({
         title: "Preferences saved",
         description: "Your alert preferences have been updated",
@@ -71,6 +78,21 @@ const AlertPreferences = () => {
     mutation.mutate(preferences);
   };
 
+  if (!user) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+        <h2 className="text-lg font-medium mb-4">Alert Preferences</h2>
+        <div className="text-center py-4 text-gray-500">
+          <span className="material-icons text-3xl mb-2">notifications_off</span>
+          <p className="text-sm mb-4">Log in to choose which alerts you receive</p>
+          <Button asChild className="w-full">
+            <Link href="/login">Log In</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
       <h2 className="text-lg font-medium mb-4">Alert Preferences</h2>
@@ -128,7 +150,7 @@ const AlertPreferences = () => {
       <Button 
         className="w-full mt-4"
         onClick={handleSavePreferences}
-        disabled={mutation.isPending}
+        disabled={mutation.isPending || isLoading}
       >
         {mutation.isPending ? 'Saving...' : 'Save Preferences'}
       </Button>
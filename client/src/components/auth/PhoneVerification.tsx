@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { User } from '@/lib/types';
+import { sendPhoneVerificationCode, verifyPhone } from '@/lib/api';
+import { queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+
+const CODE_LENGTH = 6;
+
+interface PhoneVerificationProps {
+  user: User;
+}
+
+// SMS alerts only go to verified numbers, so prompt for a code sent to the saved phone
+const PhoneVerification = ({ user }: PhoneVerificationProps) => {
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+  const { toast } = useToast();
+
+  const sendCodeMutation = useMutation({
+    mutationFn: sendPhoneVerificationCode,
+    onSuccess: () => {
+      setCodeSent(true);
+      setCode('');
+      toast({
+        title: "Code sent",
+        description: `Enter the code we texted to ${user.phone}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to send code",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: verifyPhone,
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/auth/me'], updated);
+      setCodeSent(false);
+      toast({
+        title: "Phone verified",
+        description: "You will now receive SMS alerts at this number",
+      });
+    },
+    onError: (error) => {
+      setCode('');
+      toast({
+        title: "Verification failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  if (!user.phone) return null;
+
+  if (user.phoneVerified) {
+    return (
+      <p className="text-xs text-green-600 dark:text-green-400 mt-1 flex items-center">
+        <span className="material-icons text-sm mr-1">verified</span>
+        Verified
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2 space-y-2">
+      <p className="text-xs text-amber-600 dark:text-amber-400 flex items-center">
+        <span className="material-icons text-sm mr-1">error_outline</span>
+        Not verified. SMS alerts are sent only to verified numbers.
+      </p>
+
+      {codeSent ? (
+        <div className="space-y-2">
+          <InputOTP
+            maxLength={CODE_LENGTH}
+            pattern={REGEXP_ONLY_DIGITS}
+            value={code}
+            onChange={setCode}
+            onComplete={(value) => verifyMutation.mutate(value)}
+            disabled={verifyMutation.isPending}
+          >
+            <InputOTPGroup>
+              {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => verifyMutation.mutate(code)}
+              disabled={code.length !== CODE_LENGTH || verifyMutation.isPending}
+            >
+              {verifyMutation.isPending ? 'Verifying...' : 'Verify'}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => sendCodeMutation.mutate()}
+              disabled={sendCodeMutation.isPending}
+            >
+              Resend code
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => sendCodeMutation.mutate()}
+          disabled={sendCodeMutation.isPending}
+        >
+          {sendCodeMutation.isPending ? 'Sending...' : 'Send verification code'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default PhoneVerification;
@@ -0,0 +1,29 @@
+import { Route, Redirect } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+
+interface ProtectedRouteProps {
+  path: string;
+  component: () => React.JSX.Element;
+}
+
+// Renders the page for logged-in users and sends everyone else to /login
+const ProtectedRoute = ({ path, component: Component }: ProtectedRouteProps) => {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center py-24 text-gray-500">
+          <span className="material-icons animate-spin mr-2">autorenew</span>
+          Loading...
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/login" />
+      )}
+    </Route>
+  );
+};
+
+export default ProtectedRoute;
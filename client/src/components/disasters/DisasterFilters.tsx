@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { DisasterType, AlertType } from '@/lib/types';
+import { hazardCategories } from '@shared/hazards';
 import { motion } from 'framer-motion';
 
 interface DisasterFiltersProps {
@@ -76,34 +77,16 @@ const DisasterFilters = ({ onFilterChange }: DisasterFiltersProps) => {
       <div>
         <p className="text-sm font-medium mb-2">Disaster Type</p>
         <div className="flex flex-wrap gap-2">
-          <TypeButton 
-            type={DisasterType.Storm}
-            icon="bolt"
-            label="Storms"
-            isSelected={selectedTypes.includes(DisasterType.Storm)}
-            onClick={() => handleTypeToggle(DisasterType.Storm)}
-          />
-          <TypeButton 
-            type={DisasterType.Earthquake}
-            icon="vibration"
-            label="Earthquakes"
-            isSelected={selectedTypes.includes(DisasterType.Earthquake)}
-            onClick={() => handleTypeToggle(DisasterType.Earthquake)}
-          />
-          <TypeButton 
-            type={DisasterType.Flood}
-            icon="water"
-            label="Floods"
-            isSelected={selectedTypes.includes(DisasterType.Flood)}
-            onClick={() => handleTypeToggle(DisasterType.Flood)}
-          />
-          <TypeButton 
-            type={DisasterType.Wildfire}
-            icon="local_fire_department"
-            label="Wildfires"
-            isSelected={selectedTypes.includes(DisasterType.Wildfire)}
-            onClick={() => handleTypeToggle(DisasterType.Wildfire)}
-          />
+          {hazardCategories.map(hazard => (
+            <TypeButton 
+              key={hazard.id}
+              type={hazard.id}
+              icon={hazard.icon}
+              label={hazard.pluralLabel}
+              isSelected={selectedTypes.includes(hazard.id)}
+              onClick={() => handleTypeToggle(hazard.id)}
+            />
+          ))}
         </div>
       </div>
       
@@ -1,33 +1,62 @@
 import { useState } from 'react';
-import { Disaster, AlertType, DisasterType } from '@/lib/types';
+import { useQuery } from '@tanstack/react-query';
+import { Disaster, Incident, Location, AlertType, DisasterType } from '@/lib/types';
+import { getShakingIntensity, getWindArrival } from '@/lib/api';
+import { describeIntensity, PAGER_ALERT_COLORS } from '@/lib/intensity';
+import { getHazard, getHazardCategory } from '@shared/hazards';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import Hydrograph from './Hydrograph';
 import { motion, AnimatePresence } from 'framer-motion';
 
+// Aviation color codes of volcano notices
+const AVIATION_COLOR_CODES: Record<string, string> = {
+  GREEN: 'bg-green-500',
+  YELLOW: 'bg-yellow-400',
+  ORANGE: 'bg-orange-500',
+  RED: 'bg-red-600',
+};
+
 interface DisasterListProps {
-  disasters: Disaster[];
+  incidents: Incident[];
+  userLocation?: Location;
   onViewDetails: (disaster: Disaster) => void;
 }
 
-const DisasterList = ({ disasters, onViewDetails }: DisasterListProps) => {
-  const [selectedDisaster, setSelectedDisaster] = useState<Disaster | null>(null);
+// One card per incident; the details dialog lists every source's report
+const DisasterList = ({ incidents, userLocation, onViewDetails }: DisasterListProps) => {
+  const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const selectedDisaster = selectedIncident?.primary;
+  
+  // Expected shaking where the user is, for earthquakes with a ShakeMap
+  const { data: intensity } = useQuery({
+    queryKey: ['/api/disasters', selectedDisaster?.id, 'intensity', userLocation],
+    queryFn: () => getShakingIntensity(selectedDisaster!.id, userLocation!),
+    enabled: isDialogOpen && !!userLocation && !!selectedDisaster?.data.shakemap,
+  });
+  
+  // When tropical-storm-force winds reach the user, for tropical cyclones with wind radii
+  const { data: windArrival } = useQuery({
+    queryKey: ['/api/disasters', selectedDisaster?.id, 'wind-arrival', userLocation],
+    queryFn: () => getWindArrival(selectedDisaster!.id, userLocation!),
+    enabled: isDialogOpen && !!userLocation && selectedDisaster?.data.windRadii?.length > 0,
+  });
 
-  const handleViewDetails = (disaster: Disaster) => {
-    setSelectedDisaster(disaster);
-    setIsDialogOpen(true);
-    onViewDetails(disaster);
-  };
+  // Tsunami messages name the earthquake that triggered them; link both ways
+  const reportIds = new Set(selectedIncident?.reports.map(report => report.id) ?? []);
+  const triggeringEarthquake = selectedDisaster?.data.earthquake;
+  const earthquakeIncident = triggeringEarthquake &&
+    incidents.find(incident => incident.reports.some(report => report.id === triggeringEarthquake.id));
+  const tsunamiIncidents = incidents.filter(incident =>
+    incident.reports.some(report => reportIds.has(report.data.earthquake?.id))
+  );
 
-  const getDisasterIcon = (type: DisasterType) => {
-    switch (type) {
-      case DisasterType.Storm: return 'bolt';
-      case DisasterType.Earthquake: return 'vibration';
-      case DisasterType.Flood: return 'water';
-      case DisasterType.Wildfire: return 'local_fire_department';
-      default: return 'warning';
-    }
+  const handleViewDetails = (incident: Incident) => {
+    setSelectedIncident(incident);
+    setIsDialogOpen(true);
+    onViewDetails(incident.primary);
   };
 
   const getAlertStyleClasses = (alertType: AlertType) => {
@@ -76,12 +105,13 @@ const DisasterList = ({ disasters, onViewDetails }: DisasterListProps) => {
     <div className="space-y-3">
       <ScrollArea className="h-[400px] pr-4">
         <AnimatePresence>
-          {disasters.map((disaster) => {
+          {incidents.map((incident) => {
+            const disaster = incident.primary;
             const styles = getAlertStyleClasses(disaster.alertType);
             
             return (
               <motion.div
-                key={disaster.id}
+                key={incident.id}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, y: -20 }}
@@ -92,13 +122,22 @@ const DisasterList = ({ disasters, onViewDetails }: DisasterListProps) => {
                   <div>
                     <h3 className="font-medium flex items-center">
                       <span className={`material-icons mr-1 ${styles.icon}`}>
-                        {getDisasterIcon(disaster.type)}
+                        {getHazard(disaster.disasterType).icon}
                       </span>
                       <span>{disaster.title}</span>
                     </h3>
                     <p className="text-sm text-gray-700 dark:text-gray-300 mt-1">
                       {disaster.location}
                     </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Reported by {incident.sources.join(', ')}
+                    </p>
+                    {incident.declarations.length > 0 && (
+                      <p className="text-xs font-medium text-blue-600 dark:text-blue-400 mt-1 flex items-center">
+                        <span className="material-icons text-sm mr-1">account_balance</span>
+                        In federally declared area ({incident.declarations.map(d => d.declaration).join(', ')})
+                      </p>
+                    )}
                   </div>
                   <span className={`${styles.badge} px-2 py-0.5 rounded-full text-xs font-medium`}>
                     {disaster.alertType.charAt(0).toUpperCase() + disaster.alertType.slice(1)}
@@ -112,7 +151,7 @@ const DisasterList = ({ disasters, onViewDetails }: DisasterListProps) => {
                     variant="link"
                     size="sm"
                     className="text-primary p-0 h-auto"
-                    onClick={() => handleViewDetails(disaster)}
+                    onClick={() => handleViewDetails(incident)}
                   >
                     View Details
                   </Button>
@@ -123,7 +162,7 @@ const DisasterList = ({ disasters, onViewDetails }: DisasterListProps) => {
         </AnimatePresence>
       </ScrollArea>
 
-      {disasters.length === 0 && (
+      {incidents.length === 0 && (
         <div className="text-center py-8 text-gray-500 dark:text-gray-400">
           <span className="material-icons text-3xl mb-2">search_off</span>
           <p>No disasters found with current filters</p>
@@ -133,12 +172,12 @@ const DisasterList = ({ disasters, onViewDetails }: DisasterListProps) => {
       {/* Disaster Details Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent className="max-w-md">
-          {selectedDisaster && (
+          {selectedIncident && selectedDisaster && (
             <>
               <DialogHeader>
                 <DialogTitle className="flex items-center">
                   <span className="material-icons mr-2">
-                    {getDisasterIcon(selectedDisaster.type)}
+                    {getHazard(selectedDisaster.disasterType).icon}
                   </span>
                   {selectedDisaster.title}
                 </DialogTitle>
@@ -167,26 +206,147 @@ const DisasterList = ({ disasters, onViewDetails }: DisasterListProps) => {
                   </div>
                 )}
                 <div className="flex justify-between text-sm mt-1">
-                  <span>Source:</span>
-                  <span className="font-medium">{selectedDisaster.source}</span>
+                  <span>Reported by:</span>
+                  <span className="font-medium">{selectedIncident.sources.join(', ')}</span>
                 </div>
                 
                 {/* Additional details based on disaster type */}
-                {selectedDisaster.type === DisasterType.Earthquake && selectedDisaster.data.magnitude && (
+                {selectedDisaster.disasterType === DisasterType.Earthquake && selectedDisaster.data.magnitude && (
                   <div className="flex justify-between text-sm mt-1">
                     <span>Magnitude:</span>
                     <span className="font-medium">{selectedDisaster.data.magnitude}</span>
                   </div>
                 )}
                 
-                {selectedDisaster.type === DisasterType.Storm && selectedDisaster.data.windSpeed && (
+                {getHazardCategory(selectedDisaster.disasterType) === DisasterType.Storm && selectedDisaster.data.windSpeed && (
                   <div className="flex justify-between text-sm mt-1">
                     <span>Wind Speed:</span>
                     <span className="font-medium">{selectedDisaster.data.windSpeed} mph</span>
                   </div>
                 )}
                 
-                {selectedDisaster.type === DisasterType.Flood && selectedDisaster.data.rainfall && (
+                {selectedDisaster.data.advisoryNumber && (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span>NHC Advisory:</span>
+                    <span className="font-medium">{parseInt(selectedDisaster.data.advisoryNumber)}</span>
+                  </div>
+                )}
+                
+                {typeof selectedDisaster.data.pressure === 'number' && (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span>Minimum Pressure:</span>
+                    <span className="font-medium">{selectedDisaster.data.pressure} mb</span>
+                  </div>
+                )}
+                
+                {windArrival && (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span>Tropical-Storm Winds at Your Location:</span>
+                    <span className="font-medium font-mono">
+                      {windArrival.arrival
+                        ? (new Date(windArrival.arrival) <= new Date() ? 'Now' : new Date(windArrival.arrival).toLocaleString())
+                        : 'Not forecast'}
+                    </span>
+                  </div>
+                )}
+                
+                {selectedDisaster.data.alertLevel && (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span>Volcano Alert Level:</span>
+                    <span className="font-medium capitalize">{selectedDisaster.data.alertLevel.toLowerCase()}</span>
+                  </div>
+                )}
+                
+                {selectedDisaster.data.colorCode && (
+                  <div className="flex justify-between items-center text-sm mt-1">
+                    <span>Aviation Color Code:</span>
+                    <span className={`${AVIATION_COLOR_CODES[selectedDisaster.data.colorCode] ?? 'bg-gray-500'} text-white px-2 py-0.5 rounded-full text-xs font-medium capitalize`}>
+                      {selectedDisaster.data.colorCode.toLowerCase()}
+                    </span>
+                  </div>
+                )}
+                
+                {selectedDisaster.data.pager && (
+                  <div className="flex justify-between items-center text-sm mt-1">
+                    <span>PAGER Alert:</span>
+                    <span className={`${PAGER_ALERT_COLORS[selectedDisaster.data.pager.alertLevel] ?? 'bg-gray-500'} text-white px-2 py-0.5 rounded-full text-xs font-medium capitalize`}>
+                      {selectedDisaster.data.pager.alertLevel}
+                    </span>
+                  </div>
+                )}
+                
+                {typeof selectedDisaster.data.pager?.estimatedFatalities === 'number' && (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span>Estimated Fatalities:</span>
+                    <span className="font-medium">{selectedDisaster.data.pager.estimatedFatalities.toLocaleString()}</span>
+                  </div>
+                )}
+                
+                {typeof selectedDisaster.data.pager?.estimatedLossUsd === 'number' && (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span>Estimated Losses:</span>
+                    <span className="font-medium">
+                      {selectedDisaster.data.pager.estimatedLossUsd.toLocaleString('en-US', { style: 'currency', currency: 'USD', notation: 'compact' })}
+                    </span>
+                  </div>
+                )}
+                
+                {typeof selectedDisaster.data.shakemap?.maxMmi === 'number' && (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span>Peak Intensity:</span>
+                    <span className="font-medium">{describeIntensity(selectedDisaster.data.shakemap.maxMmi)}</span>
+                  </div>
+                )}
+                
+                {typeof intensity?.mmi === 'number' && (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span>Shaking at Your Location:</span>
+                    <span className="font-medium">{describeIntensity(intensity.mmi)}</span>
+                  </div>
+                )}
+                
+                {selectedDisaster.data.tsunami === true && (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span>Tsunami:</span>
+                    <span className="font-medium">Flagged by USGS</span>
+                  </div>
+                )}
+                
+                {selectedDisaster.data.feltReports > 0 && (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span>Felt Reports:</span>
+                    <span className="font-medium">{selectedDisaster.data.feltReports.toLocaleString()}</span>
+                  </div>
+                )}
+                
+                {selectedDisaster.data.declaration && (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span>Declaration:</span>
+                    <span className="font-medium">
+                      {selectedDisaster.data.declaration}
+                      {selectedDisaster.data.programs?.length > 0 && ` (${selectedDisaster.data.programs.join(', ')})`}
+                    </span>
+                  </div>
+                )}
+                
+                {typeof selectedDisaster.data.stage === 'number' && (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span>River Stage:</span>
+                    <span className="font-medium">
+                      {selectedDisaster.data.stage} ft
+                      {selectedDisaster.data.floodCategory && ` (${selectedDisaster.data.floodCategory})`}
+                    </span>
+                  </div>
+                )}
+                
+                {typeof selectedDisaster.data.flow === 'number' && (
+                  <div className="flex justify-between text-sm mt-1">
+                    <span>Streamflow:</span>
+                    <span className="font-medium">{selectedDisaster.data.flow.toLocaleString()} ft³/s</span>
+                  </div>
+                )}
+                
+                {selectedDisaster.disasterType === DisasterType.Flood && selectedDisaster.data.rainfall && (
                   <div className="flex justify-between text-sm mt-1">
                     <span>Rainfall:</span>
                     <span className="font-medium">{selectedDisaster.data.rainfall} inches</span>
@@ -194,6 +354,90 @@ const DisasterList = ({ disasters, onViewDetails }: DisasterListProps) => {
                 )}
               </div>
               
+              {selectedDisaster.data.threatZones?.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Coastal Threat Zones</h4>
+                  <ul className="space-y-1">
+                    {selectedDisaster.data.threatZones.map((zone: { name: string, estimatedArrival: string | null }) => (
+                      <li key={zone.name} className="flex justify-between text-sm">
+                        <span>{zone.name}</span>
+                        <span className="font-medium font-mono">
+                          {zone.estimatedArrival ? new Date(zone.estimatedArrival).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }) : '—'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Estimated earliest wave arrival. Waves slow near shore and can keep arriving for hours.
+                  </p>
+                </div>
+              )}
+              
+              {(triggeringEarthquake || tsunamiIncidents.length > 0) && (
+                <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-md">
+                  <h4 className="text-sm font-medium mb-1 flex items-center">
+                    <span className="material-icons text-sm mr-1">link</span>
+                    {triggeringEarthquake ? 'Triggered by' : 'Tsunami Messages'}
+                  </h4>
+                  {triggeringEarthquake && (
+                    earthquakeIncident ? (
+                      <Button variant="link" size="sm" className="p-0 h-auto" onClick={() => handleViewDetails(earthquakeIncident)}>
+                        {triggeringEarthquake.title}
+                      </Button>
+                    ) : (
+                      <p className="text-sm">{triggeringEarthquake.title}</p>
+                    )
+                  )}
+                  {tsunamiIncidents.map((incident) => (
+                    <Button key={incident.id} variant="link" size="sm" className="p-0 h-auto block" onClick={() => handleViewDetails(incident)}>
+                      {incident.primary.title}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              
+              {selectedDisaster.data.readings?.length > 1 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Hydrograph</h4>
+                  <Hydrograph readings={selectedDisaster.data.readings} floodStages={selectedDisaster.data.floodStages} />
+                </div>
+              )}
+              
+              {selectedIncident.declarations.length > 0 && (
+                <div className="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-md">
+                  <h4 className="text-sm font-medium mb-1 flex items-center">
+                    <span className="material-icons text-sm mr-1">account_balance</span>
+                    Federally Declared Area
+                  </h4>
+                  <ul className="space-y-1">
+                    {selectedIncident.declarations.map((declaration) => (
+                      <li key={declaration.disasterId} className="text-sm">
+                        <span className="font-medium">{declaration.declaration}</span> {declaration.title}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              
+              {selectedIncident.reports.length > 1 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Source Reports</h4>
+                  <ul className="space-y-2">
+                    {selectedIncident.reports.map((report) => (
+                      <li key={report.id} className="text-sm border-l-2 border-gray-300 dark:border-gray-600 pl-2">
+                        <div className="flex justify-between">
+                          <span className="font-medium">{report.source}</span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+                            {new Date(report.timestamp).toLocaleString()}
+                          </span>
+                        </div>
+                        <p className="text-gray-700 dark:text-gray-300">{report.title}</p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              
               <div className="flex flex-col space-y-2 mt-4">
                 <Button 
                   variant="default"
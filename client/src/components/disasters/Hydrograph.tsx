@@ -0,0 +1,60 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+
+interface HydrographProps {
+  readings: { time: string, stage: number }[];
+  floodStages?: Partial<Record<'action' | 'minor' | 'moderate' | 'major', number>>;
+}
+
+// Flood stage lines, least severe first
+const FLOOD_STAGE_LINES = [
+  { category: 'action', label: 'Action', color: '#eab308' },
+  { category: 'minor', label: 'Minor', color: '#f97316' },
+  { category: 'moderate', label: 'Moderate', color: '#ef4444' },
+  { category: 'major', label: 'Major', color: '#a855f7' },
+] as const;
+
+const chartConfig = {
+  stage: { label: 'Stage (ft)', color: '#3b82f6' },
+} satisfies ChartConfig;
+
+const formatTime = (time: string) =>
+  new Date(time).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+// Gage height over the last day, against the gauge's flood stages
+const Hydrograph = ({ readings, floodStages = {} }: HydrographProps) => {
+  const stages = FLOOD_STAGE_LINES.filter(line => typeof floodStages[line.category] === 'number');
+  const values = [...readings.map(reading => reading.stage), ...stages.map(line => floodStages[line.category]!)];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const padding = Math.max((max - min) * 0.1, 0.5);
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+      <LineChart data={readings} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="time" tickFormatter={formatTime} minTickGap={32} tickLine={false} />
+        <YAxis
+          domain={[Math.floor(min - padding), Math.ceil(max + padding)]}
+          tickLine={false}
+          allowDecimals={false}
+        />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={(_, payload) => payload[0] && new Date(payload[0].payload.time).toLocaleString()} />}
+        />
+        {stages.map(line => (
+          <ReferenceLine
+            key={line.category}
+            y={floodStages[line.category]}
+            stroke={line.color}
+            strokeDasharray="4 4"
+            label={{ value: line.label, position: 'insideTopLeft', fill: line.color, fontSize: 10 }}
+          />
+        ))}
+        <Line dataKey="stage" type="monotone" stroke="var(--color-stage)" strokeWidth={2} dot={false} />
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+export default Hydrograph;
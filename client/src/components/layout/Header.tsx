@@ -1,16 +1,35 @@
 import { useState } from 'react';
 import { Link, useLocation } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { useMediaQuery } from '@/hooks/use-mobile';
+import { useAuth } from '@/hooks/use-auth';
+import { getUnreadAlertCount } from '@/lib/api';
 import {
   Sheet,
   SheetContent,
   SheetTrigger,
 } from "@/components/ui/sheet";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 const Header = () => {
-  const [location] = useLocation();
+  const [location, setLocation] = useLocation();
+  const { user, logoutMutation } = useAuth();
   const isMobile = useMediaQuery("(max-width: 768px)");
+  
+  const { data: unreadCount = 0 } = useQuery<number>({
+    queryKey: ['/api/alerts/history/unread-count'],
+    queryFn: getUnreadAlertCount,
+    enabled: !!user,
+    refetchInterval: 60 * 1000,
+  });
   const [isDarkMode, setIsDarkMode] = useState(
     localStorage.getItem('theme') === 'dark' || 
     (!localStorage.getItem('theme') && window.matchMedia('(prefers-color-scheme: dark)').matches)
@@ -38,7 +57,7 @@ const Header = () => {
 
   const navItems = [
     { href: '/', label: 'Dashboard', icon: 'dashboard' },
-    { href: '/alerts', label: 'Alerts', icon: 'notifications' },
+    { href: '/alerts', label: 'Alerts', icon: 'notifications', badge: user ? unreadCount : 0 },
     { href: '/resources', label: 'Resources', icon: 'help_outline' },
     { href: '/settings', label: 'Settings', icon: 'settings' },
   ];
@@ -56,6 +75,11 @@ const Header = () => {
           } transition flex items-center`}
         >
           <span className="material-icons mr-1 text-sm">{item.icon}</span> {item.label}
+          {!!item.badge && (
+            <span className="ml-1 min-w-5 h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+              {item.badge > 99 ? '99+' : item.badge}
+            </span>
+          )}
         </Link>
       ))}
     </>
@@ -86,15 +110,50 @@ const Header = () => {
             </button>
             
             {/* User Menu */}
-            <div className="relative">
-              <button className="flex items-center space-x-1 focus:outline-none">
-                <div className="w-8 h-8 rounded-full bg-gray-300 overflow-hidden flex items-center justify-center">
-                  <span className="material-icons text-gray-600">person</span>
-                </div>
-                <span className="hidden md:block text-sm">Account</span>
-                <span className="material-icons text-xs">arrow_drop_down</span>
-              </button>
-            </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className="flex items-center space-x-1 focus:outline-none">
+                  <div className="w-8 h-8 rounded-full bg-gray-300 overflow-hidden flex items-center justify-center">
+                    <span className="material-icons text-gray-600">person</span>
+                  </div>
+                  <span className="hidden md:block text-sm">{user ? user.username : 'Account'}</span>
+                  <span className="material-icons text-xs">arrow_drop_down</span>
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-48">
+                {user ? (
+                  <>
+                    <DropdownMenuLabel>
+                      <p className="font-medium">{user.username}</p>
+                      <p className="text-xs text-gray-500 font-normal truncate">{user.email}</p>
+                    </DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onSelect={() => setLocation('/settings')}>
+                      <span className="material-icons mr-2 text-sm">settings</span>
+                      Settings
+                    </DropdownMenuItem>
+                    <DropdownMenuItem 
+                      onSelect={() => logoutMutation.mutate(undefined, { onSuccess: () => setLocation('/') })}
+                      disabled={logoutMutation.isPending}
+                    >
+                      <span className="material-icons mr-2 text-sm">logout</span>
+                      Log Out
+                    </DropdownMenuItem>
+                  </>
+                ) : (
+                  <>
+                    <DropdownMenuItem onSelect={() => setLocation('/login')}>
+                      <span className="material-icons mr-2 text-sm">login</span>
+                      Log In
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => setLocation('/register')}>
+                      <span className="material-icons mr-2 text-sm">person_add</span>
+                      Create Account
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
             
             {/* Mobile Menu */}
             {isMobile && (
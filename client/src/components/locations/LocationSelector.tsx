@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
-import { Location } from '@/lib/types';
+import { Location, DisasterFreshness } from '@/lib/types';
 import { searchLocation, detectUserLocation } from '@/lib/api';
 import { useQuery } from '@tanstack/react-query';
 import { queryClient } from '@/lib/queryClient';
@@ -18,7 +18,7 @@ const LocationSelector = ({ onLocationSelect, initialLocation }: LocationSelecto
   const [searchResults, setSearchResults] = useState<Location[]>([]);
   const { toast } = useToast();
 
-  const { data: lastUpdated } = useQuery({
+  const { data: freshness } = useQuery<DisasterFreshness>({
     queryKey: ['/api/disasters/lastUpdated'],
     refetchInterval: 60000, // Refresh every minute
   });
@@ -82,6 +82,7 @@ const LocationSelector = ({ onLocationSelect, initialLocation }: LocationSelecto
   };
 
   // Format the last updated time
+  const lastUpdated = freshness?.lastUpdated;
   const formattedLastUpdated = lastUpdated ? 
     new Date(lastUpdated).toLocaleString('en-US', {
       month: 'short',
@@ -90,7 +91,7 @@ const LocationSelector = ({ onLocationSelect, initialLocation }: LocationSelecto
       hour: 'numeric',
       minute: '2-digit',
       hour12: true
-    }) : 'Loading...';
+    }) : freshness ? 'Waiting for first update' : 'Loading...';
 
   return (
     <div className="space-y-2">
@@ -2,6 +2,23 @@ import { useState, useEffect, useRef } from 'react';
 import { Disaster, Location } from '@/lib/types';
 import { motion } from 'framer-motion';
 import { useToast } from '@/hooks/use-toast';
+import { describeIntensity, getIntensityColor } from '@/lib/intensity';
+import { escapeHtml } from '@/lib/utils';
+import { getHazard } from '@shared/hazards';
+
+// Fallback footprint when a disaster has no geometry, in meters
+const FALLBACK_RADIUS: Record<string, number> = {
+  warning: 10000,
+  watch: 5000,
+  advisory: 2000,
+};
+
+// Rough distance at which an earthquake is felt (intensity II-III), in km.
+// About 10 km for M3, 70 km for M5 and 500 km for M7.
+const estimateFeltRadiusKm = (magnitude: number) => Math.max(1, 10 ** (0.43 * magnitude - 0.3));
+
+// Tooltip HTML, one line per entry. Feed text is escaped, since Leaflet renders it as HTML.
+const tooltipLines = (...lines: string[]) => lines.map(escapeHtml).join('<br>');
 
 // Using Leaflet as a component
 const DisasterMap = ({ 
@@ -19,6 +36,7 @@ const DisasterMap = ({
   const [mapInstance, setMapInstance] = useState<any>(null);
   const [mapType, setMapType] = useState<'standard' | 'satellite' | 'terrain'>('standard');
   const markersRef = useRef<any[]>([]);
+  const footprintsRef = useRef(new Map<number, any>());
   const userMarkerRef = useRef<any>(null);
   const { toast } = useToast();
 
@@ -101,6 +119,7 @@ const DisasterMap = ({
       mapInstance.removeLayer(marker);
     });
     markersRef.current = [];
+    footprintsRef.current.clear();
     
     // Add new markers for each disaster
     disasters.forEach(disaster => {
@@ -110,9 +129,11 @@ const DisasterMap = ({
         .addTo(mapInstance)
         .bindPopup(`
           <div class="disaster-popup">
-            <h3 class="font-semibold">${disaster.title}</h3>
-            <p class="text-sm">${disaster.location}</p>
+            <p class="text-xs font-medium" style="color: ${getHazard(disaster.disasterType).color}">${getHazard(disaster.disasterType).label}</p>
+            <h3 class="font-semibold">${escapeHtml(disaster.title)}</h3>
+            <p class="text-sm">${escapeHtml(disaster.location)}</p>
             <p class="text-xs">${new Date(disaster.timestamp).toLocaleString()}</p>
+            ${[...getFireDetails(disaster), ...getVolcanoDetails(disaster)].map(detail => `<p class="text-xs">${escapeHtml(detail)}</p>`).join('')}
           </div>
         `);
       
@@ -120,31 +141,12 @@ const DisasterMap = ({
         onMarkerClick(disaster);
       });
       
-      // Add circular animation for impact radius based on severity
-      let radius = 1000; // base radius in meters
-      
-      switch (disaster.alertType) {
-        case 'warning':
-          radius = 10000; // 10km radius for warnings
-          break;
-        case 'watch':
-          radius = 5000; // 5km for watches
-          break;
-        case 'advisory':
-          radius = 2000; // 2km for advisories
-          break;
-      }
-      
-      const circleColor = getCircleColorForDisaster(disaster);
+      const footprint = createFootprint(L, disaster);
+      footprint.on('click', () => onMarkerClick(disaster));
+      footprint.addTo(mapInstance);
+      footprintsRef.current.set(disaster.id, footprint);
       
-      const circle = L.circle([disaster.latitude, disaster.longitude], {
-        color: circleColor,
-        fillColor: circleColor,
-        fillOpacity: 0.2,
-        radius: radius
-      }).addTo(mapInstance);
-      
-      markersRef.current.push(marker, circle);
+      markersRef.current.push(marker, footprint);
     });
   }, [mapInstance, disasters, onMarkerClick]);
 
@@ -173,7 +175,7 @@ const DisasterMap = ({
     // Add new user marker
     userMarkerRef.current = L.marker([userLocation.latitude, userLocation.longitude], { icon: userIcon })
       .addTo(mapInstance)
-      .bindPopup(`<div>Your location: ${userLocation.name}</div>`);
+      .bindPopup(`<div>Your location: ${escapeHtml(userLocation.name)}</div>`);
     
     // Center map on user location if available
     mapInstance.setView([userLocation.latitude, userLocation.longitude], 10);
@@ -184,8 +186,13 @@ const DisasterMap = ({
   useEffect(() => {
     if (!mapInstance || !focusedDisaster) return;
     
-    // Center map on the focused disaster
-    mapInstance.setView([focusedDisaster.latitude, focusedDisaster.longitude], 12);
+    // Fit the map to the affected area, or center on the disaster if it has none
+    const footprint = footprintsRef.current.get(focusedDisaster.id);
+    if (footprint && isPolygonal(focusedDisaster)) {
+      mapInstance.fitBounds(footprint.getBounds(), { maxZoom: 12 });
+    } else {
+      mapInstance.setView([focusedDisaster.latitude, focusedDisaster.longitude], 12);
+    }
     
     // Find and open the popup for this disaster
     markersRef.current.forEach(marker => {
@@ -201,27 +208,9 @@ const DisasterMap = ({
     // @ts-ignore
     const L = window.L;
     
-    let iconName = '';
+    const iconName = getHazard(disaster.disasterType).icon;
     let bgColor = '';
     
-    // Set icon based on disaster type
-    switch (disaster.type) {
-      case 'earthquake':
-        iconName = 'vibration';
-        break;
-      case 'flood':
-        iconName = 'water';
-        break;
-      case 'storm':
-        iconName = 'bolt';
-        break;
-      case 'wildfire':
-        iconName = 'local_fire_department';
-        break;
-      default:
-        iconName = 'warning';
-    }
-    
     // Set color based on alert type
     switch (disaster.alertType) {
       case 'warning':
@@ -246,6 +235,171 @@ const DisasterMap = ({
     });
   };
 
+  // Satellite fire detections report radiative power and confidence; fire
+  // events report their burned area
+  const getFireDetails = (disaster: Disaster): string[] => {
+    const { frp, hotspots, confidence, acres } = disaster.data ?? {};
+    const details: string[] = [];
+    if (typeof frp === 'number') {
+      details.push(`Fire radiative power: ${frp} MW`);
+      details.push(`${hotspots} hotspots, ${confidence?.high ?? 0} high confidence`);
+    }
+    if (typeof acres === 'number') {
+      details.push(`${acres.toLocaleString()} acres`);
+    }
+    return details;
+  };
+
+  // Volcano notices report an alert level for the ground and a color code for aviation
+  const getVolcanoDetails = (disaster: Disaster): string[] => {
+    const { alertLevel, colorCode } = disaster.data ?? {};
+    if (!alertLevel && !colorCode) return [];
+    return [`Alert level: ${alertLevel ?? 'unknown'}`, `Aviation color code: ${colorCode ?? 'unknown'}`];
+  };
+
+  const isPolygonal = (disaster: Disaster) =>
+    disaster.geometry?.type === 'Polygon' || disaster.geometry?.type === 'MultiPolygon';
+
+  // The area a disaster affects: the forecast cone and track for tropical
+  // cyclones, ShakeMap contours for earthquakes that have them, its real polygon
+  // when the source provides one, a felt-radius estimate for other earthquakes,
+  // otherwise a circle sized by alert type
+  const createFootprint = (L: any, disaster: Disaster) => {
+    const color = getCircleColorForDisaster(disaster);
+    
+    if (disaster.data?.track?.length > 0) {
+      return createStormTrack(L, disaster, color);
+    }
+    
+    // Tsunami threat zones, each with its estimated wave arrival
+    const threatZones: { name: string, estimatedArrival: string | null, geometry: any }[] =
+      (disaster.data?.threatZones ?? []).filter((zone: { geometry: any }) => zone.geometry);
+    if (threatZones.length > 0) {
+      const style = { color, weight: 2, fillColor: color, fillOpacity: 0.25 };
+      return L.geoJSON({
+        type: 'FeatureCollection',
+        features: threatZones.map(zone => ({ type: 'Feature', properties: zone, geometry: zone.geometry }))
+      }, {
+        style,
+        onEachFeature: (feature: any, zone: any) => {
+          const arrival = feature.properties.estimatedArrival;
+          zone.bindTooltip(
+            tooltipLines(
+              disaster.title,
+              feature.properties.name,
+              ...(arrival ? [`Estimated arrival ${new Date(arrival).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`] : [])
+            ),
+            { sticky: true }
+          );
+        }
+      });
+    }
+    
+    // ShakeMap intensity contours, for earthquakes that have them
+    const contours: { mmi: number, lines: number[][][] }[] = disaster.data?.shakemap?.contours ?? [];
+    if (contours.length > 0) {
+      const layer = L.geoJSON({
+        type: 'FeatureCollection',
+        features: contours.map(({ mmi, lines }) => ({
+          type: 'Feature',
+          properties: { mmi },
+          geometry: { type: 'MultiLineString', coordinates: lines }
+        }))
+      }, {
+        style: (feature: any) => ({ color: getIntensityColor(feature.properties.mmi), weight: 2, opacity: 0.9 }),
+        onEachFeature: (feature: any, contour: any) => {
+          contour.bindTooltip(tooltipLines(disaster.title, `Intensity ${describeIntensity(feature.properties.mmi)}`), { sticky: true });
+        }
+      });
+      return layer;
+    }
+    
+    if (isPolygonal(disaster)) {
+      const style = { color, weight: 2, fillColor: color, fillOpacity: 0.15 };
+      const layer = L.geoJSON(disaster.geometry, { style });
+      
+      layer.on('mouseover', () => {
+        layer.setStyle({ weight: 4, fillOpacity: 0.35 });
+        layer.bringToFront();
+      });
+      layer.on('mouseout', () => layer.setStyle(style));
+      layer.bindTooltip(tooltipLines(disaster.title, ...getFireDetails(disaster)), { sticky: true });
+      return layer;
+    }
+    
+    // Only earthquakes carry a magnitude
+    const magnitude = disaster.data?.magnitude;
+    const radius = typeof magnitude === 'number'
+      ? estimateFeltRadiusKm(magnitude) * 1000
+      : FALLBACK_RADIUS[disaster.alertType] ?? 1000;
+    
+    return L.circle([disaster.latitude, disaster.longitude], {
+      color,
+      fillColor: color,
+      fillOpacity: 0.2,
+      radius
+    });
+  };
+
+  // NHC forecast cone, current tropical-storm-force wind field and forecast
+  // track, with a marker that replays the storm's movement along the track
+  const createStormTrack = (L: any, disaster: Disaster, color: string) => {
+    const track: { time: string, latitude: number, longitude: number, maxWind: number, development: string }[] = disaster.data.track;
+    const windRadii: { time: string, threshold: number, geometry: any }[] = disaster.data.windRadii ?? [];
+    const layer = L.featureGroup();
+    
+    if (disaster.data.cone) {
+      L.geoJSON(disaster.data.cone, { style: { color, weight: 1, fillColor: color, fillOpacity: 0.1, dashArray: '4 4' } })
+        .bindTooltip(tooltipLines(disaster.title, 'Forecast cone'), { sticky: true })
+        .addTo(layer);
+    }
+    
+    // Radii are sorted by time, so the first are the current wind field
+    const current = windRadii.filter(radii => radii.threshold === 34 && radii.time === windRadii[0].time);
+    current.forEach(radii => {
+      L.geoJSON(radii.geometry, { style: { color: '#f59e0b', weight: 1, fillColor: '#f59e0b', fillOpacity: 0.2 } })
+        .bindTooltip(tooltipLines(disaster.title, 'Tropical-storm-force winds'), { sticky: true })
+        .addTo(layer);
+    });
+    
+    const positions = track.map(point => [point.latitude, point.longitude]);
+    L.polyline(positions, { color, weight: 3 }).addTo(layer);
+    track.forEach(point => {
+      L.circleMarker([point.latitude, point.longitude], { radius: 4, color, fillColor: '#fff', fillOpacity: 1, weight: 2 })
+        .bindTooltip(tooltipLines(new Date(point.time).toLocaleString(), `${point.development}, ${Math.round(point.maxWind * 1.15078)} mph`))
+        .addTo(layer);
+    });
+    
+    // Step the marker along the track while the layer is on the map
+    const stormMarker = L.marker(positions[0], {
+      icon: L.divIcon({
+        html: `<span class="material-icons" style="color: ${color}; font-size: 24px;">cyclone</span>`,
+        className: '',
+        iconSize: [24, 24],
+        iconAnchor: [12, 12]
+      }),
+      interactive: false
+    }).addTo(layer);
+    
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let step = 0;
+    const stepsPerLeg = 20;
+    layer.on('add', () => {
+      timer = setInterval(() => {
+        const legs = Math.max(positions.length - 1, 1);
+        step = (step + 1) % (legs * stepsPerLeg + stepsPerLeg); // pause at the end of the track
+        const leg = Math.min(Math.floor(step / stepsPerLeg), legs - 1);
+        const from = positions[leg];
+        const to = positions[Math.min(leg + 1, positions.length - 1)];
+        const fraction = Math.min(step / stepsPerLeg - leg, 1);
+        stormMarker.setLatLng([from[0] + (to[0] - from[0]) * fraction, from[1] + (to[1] - from[1]) * fraction]);
+      }, 100);
+    });
+    layer.on('remove', () => clearInterval(timer));
+    
+    return layer;
+  };
+
   const getCircleColorForDisaster = (disaster: Disaster) => {
     switch (disaster.alertType) {
       case 'warning':
@@ -375,6 +529,12 @@ const DisasterMap = ({
             <div className="w-4 h-4 rounded-full bg-green-500"></div>
             <span className="text-xs">Advisory</span>
           </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 max-w-[10rem]">
+            Shaded areas show where an alert applies or an earthquake was likely felt.
+            Colored lines are ShakeMap intensity contours.
+            Storm tracks show the NHC forecast cone and path.
+            Tsunami zones show estimated wave arrival on hover.
+          </p>
         </div>
       </div>
     </div>
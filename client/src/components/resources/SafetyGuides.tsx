@@ -1,5 +1,7 @@
 import { useQuery } from '@tanstack/react-query';
-import { SafetyGuide, DisasterType } from '@/lib/types';
+import { SafetyGuide } from '@/lib/types';
+import { getHazardGradient } from '@/lib/hazards';
+import { getHazard } from '@shared/hazards';
 import { getSafetyGuides } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { motion } from 'framer-motion';
@@ -30,32 +32,6 @@ const SafetyGuides = () => {
     }
   };
 
-  // Get gradient colors based on disaster type
-  const getGradient = (type: DisasterType) => {
-    switch (type) {
-      case DisasterType.Storm:
-        return 'from-blue-500 to-blue-700';
-      case DisasterType.Earthquake:
-        return 'from-amber-500 to-amber-700';
-      case DisasterType.Flood:
-        return 'from-cyan-500 to-cyan-700';
-      case DisasterType.Wildfire:
-        return 'from-red-500 to-red-700';
-      default:
-        return 'from-gray-500 to-gray-700';
-    }
-  };
-
-  const getDisasterIcon = (type: DisasterType) => {
-    switch (type) {
-      case DisasterType.Storm: return 'flash_on';
-      case DisasterType.Earthquake: return 'vibration';
-      case DisasterType.Flood: return 'water';
-      case DisasterType.Wildfire: return 'local_fire_department';
-      default: return 'warning';
-    }
-  };
-
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
       <div className="flex justify-between items-center mb-4">
@@ -86,12 +62,13 @@ const SafetyGuides = () => {
           {guides?.slice(0, 4).map((guide) => (
             <motion.div
               key={guide.id}
-              className={`bg-gradient-to-br ${getGradient(guide.disasterType)} text-white rounded-lg p-4 relative overflow-hidden`}
+              className="text-white rounded-lg p-4 relative overflow-hidden"
+              style={getHazardGradient(guide.disasterType)}
               variants={itemVariants}
               whileHover={{ scale: 1.02, transition: { duration: 0.2 } }}
             >
               <div className="absolute right-0 bottom-0 opacity-20">
-                <span className="material-icons text-6xl">{getDisasterIcon(guide.disasterType)}</span>
+                <span className="material-icons text-6xl">{getHazard(guide.disasterType).icon}</span>
               </div>
               <h3 className="text-lg font-medium mb-2">{guide.title}</h3>
               <p className="text-sm mb-4">{guide.description}</p>
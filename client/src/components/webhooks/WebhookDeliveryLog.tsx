@@ -0,0 +1,80 @@
+import { useQuery } from '@tanstack/react-query';
+import { WebhookDelivery } from '@/lib/types';
+import { getWebhookDeliveries } from '@/lib/api';
+
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const getStatusColor = (status: WebhookDelivery['status']) => {
+  switch (status) {
+    case 'sent': return 'bg-green-500 text-white';
+    case 'failed': return 'bg-red-500 text-white';
+    default: return 'bg-gray-500 text-white';
+  }
+};
+
+interface WebhookDeliveryLogProps {
+  webhookId: number;
+}
+
+// Most recent deliveries for one webhook; failed ones are retried by the server
+const WebhookDeliveryLog = ({ webhookId }: WebhookDeliveryLogProps) => {
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: ['/api/webhooks', webhookId, 'deliveries'],
+    queryFn: () => getWebhookDeliveries(webhookId),
+    refetchInterval: 30000,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (deliveries.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 py-2">
+        No deliveries yet. Send a test event to try this webhook.
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Event</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Response</TableHead>
+          <TableHead className="text-right">Attempts</TableHead>
+          <TableHead>Last attempt</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {deliveries.map(delivery => (
+          <TableRow key={delivery.id}>
+            <TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+            <TableCell>
+              <Badge className={getStatusColor(delivery.status)}>{delivery.status}</Badge>
+            </TableCell>
+            <TableCell className="text-xs" title={delivery.lastError ?? undefined}>
+              {delivery.responseStatus ?? delivery.lastError ?? '—'}
+            </TableCell>
+            <TableCell className="text-right">{delivery.attempts}</TableCell>
+            <TableCell className="text-xs text-gray-500">
+              {delivery.lastAttemptAt ? new Date(delivery.lastAttemptAt).toLocaleString() : '—'}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default WebhookDeliveryLog;
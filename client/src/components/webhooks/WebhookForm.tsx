@@ -0,0 +1,256 @@
+import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { AlertType, SavedLocation, Webhook, WebhookEvent, WebhookInput } from '@/lib/types';
+import { getSavedLocations } from '@/lib/api';
+import { hazards } from '@shared/hazards';
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  'disaster.created': 'New disaster',
+  'disaster.updated': 'Disaster updated',
+  'disaster.expired': 'Alert expired',
+};
+
+const ALERT_TYPES = Object.values(AlertType);
+
+const emptyWebhook: WebhookInput = {
+  url: '',
+  events: ['disaster.created', 'disaster.updated'],
+  filters: { disasterTypes: [], alertTypes: [], area: null },
+  active: true,
+};
+
+interface WebhookFormProps {
+  open: boolean;
+  webhook: Webhook | null; // null to register a new webhook
+  isSaving: boolean;
+  onSubmit: (input: WebhookInput) => void;
+  onClose: () => void;
+}
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+// Create or edit a webhook registration. Empty type lists mean "all types".
+const WebhookForm = ({ open, webhook, isSaving, onSubmit, onClose }: WebhookFormProps) => {
+  const [form, setForm] = useState<WebhookInput>(emptyWebhook);
+  const [area, setArea] = useState({ latitude: '', longitude: '', radius: '50' });
+
+  const { data: savedLocations = [] } = useQuery<SavedLocation[]>({
+    queryKey: ['/api/locations'],
+    queryFn: getSavedLocations,
+    enabled: open,
+  });
+
+  // Start from the webhook being edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    const initial = webhook ?? emptyWebhook;
+    setForm({ url: initial.url, events: initial.events, filters: initial.filters, active: initial.active });
+    setArea(initial.filters.area
+      ? {
+          latitude: String(initial.filters.area.latitude),
+          longitude: String(initial.filters.area.longitude),
+          radius: String(initial.filters.area.radius),
+        }
+      : { latitude: '', longitude: '', radius: '50' });
+  }, [open, webhook]);
+
+  const limitToArea = form.filters.area !== null;
+
+  const setFilters = (update: Partial<WebhookInput['filters']>) => {
+    setForm(prev => ({ ...prev, filters: { ...prev.filters, ...update } }));
+  };
+
+  const handleSavedLocation = (id: string) => {
+    const location = savedLocations.find(l => l.id.toString() === id);
+    if (location) {
+      setArea(prev => ({ ...prev, latitude: String(location.latitude), longitude: String(location.longitude) }));
+    }
+  };
+
+  const handleSubmit = () => {
+    onSubmit({
+      ...form,
+      url: form.url.trim(),
+      filters: {
+        ...form.filters,
+        area: limitToArea
+          ? { latitude: parseFloat(area.latitude), longitude: parseFloat(area.longitude), radius: parseFloat(area.radius) }
+          : null,
+      },
+    });
+  };
+
+  const areaValid = !limitToArea || [area.latitude, area.longitude, area.radius].every(v => v.trim() !== '' && !isNaN(Number(v)));
+  const canSubmit = form.url.trim() !== '' && form.events.length > 0 && areaValid && !isSaving;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{webhook ? 'Edit Webhook' : 'Add Webhook'}</DialogTitle>
+          <DialogDescription>
+            DisasterTrack will POST matching disaster events to this URL as JSON
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div>
+            <Label htmlFor="webhook-url">Payload URL</Label>
+            <Input
+              id="webhook-url"
+              className="mt-1"
+              placeholder="https://example.com/hooks/disasters"
+              value={form.url}
+              onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+            />
+          </div>
+
+          <div>
+            <Label className="mb-2 block">Events</Label>
+            <div className="space-y-2">
+              {(Object.keys(WEBHOOK_EVENT_LABELS) as WebhookEvent[]).map(event => (
+                <div key={event} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`webhook-event-${event}`}
+                    checked={form.events.includes(event)}
+                    onCheckedChange={() => setForm(prev => ({ ...prev, events: toggle(prev.events, event) }))}
+                  />
+                  <Label htmlFor={`webhook-event-${event}`}>
+                    {WEBHOOK_EVENT_LABELS[event]} <span className="text-xs text-gray-500 font-mono">{event}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label className="mb-2 block">Disaster Types</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {hazards.map(hazard => (
+                <div key={hazard.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`webhook-type-${hazard.id}`}
+                    checked={form.filters.disasterTypes.includes(hazard.id)}
+                    onCheckedChange={() => setFilters({ disasterTypes: toggle(form.filters.disasterTypes, hazard.id) })}
+                  />
+                  <Label htmlFor={`webhook-type-${hazard.id}`}>{hazard.label}</Label>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Leave all unchecked to receive every type. Storms include tornadoes, hurricanes and winter storms.</p>
+          </div>
+
+          <div>
+            <Label className="mb-2 block">Alert Levels</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {ALERT_TYPES.map(type => (
+                <div key={type} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`webhook-alert-${type}`}
+                    checked={form.filters.alertTypes.includes(type)}
+                    onCheckedChange={() => setFilters({ alertTypes: toggle(form.filters.alertTypes, type) })}
+                  />
+                  <Label htmlFor={`webhook-alert-${type}`} className="capitalize">{type}</Label>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Leave all unchecked to receive every level</p>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="webhook-limit-area">Limit to an area</Label>
+              <Switch
+                id="webhook-limit-area"
+                checked={limitToArea}
+                onCheckedChange={(checked) => setFilters({
+                  area: checked ? { latitude: 0, longitude: 0, radius: 50 } : null
+                })}
+              />
+            </div>
+
+            {limitToArea && (
+              <>
+                {savedLocations.length > 0 && (
+                  <Select onValueChange={handleSavedLocation}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Center on a saved location" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {savedLocations.map(location => (
+                        <SelectItem key={location.id} value={location.id.toString()}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <Label htmlFor="webhook-latitude" className="text-xs">Latitude</Label>
+                    <Input
+                      id="webhook-latitude"
+                      inputMode="decimal"
+                      value={area.latitude}
+                      onChange={(e) => setArea(prev => ({ ...prev, latitude: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="webhook-longitude" className="text-xs">Longitude</Label>
+                    <Input
+                      id="webhook-longitude"
+                      inputMode="decimal"
+                      value={area.longitude}
+                      onChange={(e) => setArea(prev => ({ ...prev, longitude: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="webhook-radius" className="text-xs">Radius (km)</Label>
+                    <Input
+                      id="webhook-radius"
+                      inputMode="decimal"
+                      value={area.radius}
+                      onChange={(e) => setArea(prev => ({ ...prev, radius: e.target.value }))}
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            {isSaving ? 'Saving...' : webhook ? 'Save Changes' : 'Add Webhook'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WebhookForm;
@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Webhook, WebhookInput } from '@/lib/types';
+import { getWebhooks, createWebhook, updateWebhook, deleteWebhook, rotateWebhookSecret, sendTestWebhook } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import { getHazard } from '@shared/hazards';
+import WebhookForm, { WEBHOOK_EVENT_LABELS } from './WebhookForm';
+import WebhookDeliveryLog from './WebhookDeliveryLog';
+
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+
+const describeFilters = ({ filters }: Webhook): string => {
+  const types = filters.disasterTypes.length > 0 ? filters.disasterTypes.map(type => getHazard(type).label).join(', ') : 'all types';
+  const levels = filters.alertTypes.length > 0 ? filters.alertTypes.join(', ') : 'all levels';
+  const area = filters.area
+    ? `within ${filters.area.radius} km of ${filters.area.latitude.toFixed(2)}, ${filters.area.longitude.toFixed(2)}`
+    : 'anywhere';
+  return `${types} · ${levels} · ${area}`;
+};
+
+// Settings section for piping disaster events into other tools
+const WebhookSettings = () => {
+  const [editing, setEditing] = useState<Webhook | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [revealedId, setRevealedId] = useState<number | null>(null);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: webhooks = [], isLoading } = useQuery<Webhook[]>({
+    queryKey: ['/api/webhooks'],
+    queryFn: getWebhooks,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message || "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const refreshWebhooks = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/webhooks'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (input: WebhookInput) => editing ? updateWebhook(editing.id, input) : createWebhook(input),
+    onSuccess: () => {
+      refreshWebhooks();
+      setIsFormOpen(false);
+      toast({
+        title: editing ? "Webhook updated" : "Webhook added",
+        description: "Matching disaster events will be sent to this URL",
+      });
+    },
+    onError: onError("Failed to save webhook"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, active }: { id: number, active: boolean }) => updateWebhook(id, { active }),
+    onSuccess: refreshWebhooks,
+    onError: onError("Failed to update webhook"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteWebhook,
+    onSuccess: () => {
+      refreshWebhooks();
+      toast({
+        title: "Webhook deleted",
+        description: "No more events will be sent to this URL",
+      });
+    },
+    onError: onError("Failed to delete webhook"),
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: rotateWebhookSecret,
+    onSuccess: (webhook) => {
+      refreshWebhooks();
+      setRevealedId(webhook.id);
+      toast({
+        title: "Secret rotated",
+        description: "Update your receiver to verify signatures with the new secret",
+      });
+    },
+    onError: onError("Failed to rotate secret"),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: sendTestWebhook,
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/webhooks', delivery.webhookId, 'deliveries'] });
+      setExpandedId(delivery.webhookId);
+      toast(delivery.status === 'sent'
+        ? { title: "Test event delivered", description: `Your endpoint answered ${delivery.responseStatus}` }
+        : { title: "Test event failed", description: delivery.lastError ?? "The endpoint did not accept the event", variant: "destructive" });
+    },
+    onError: onError("Failed to send test event"),
+  });
+
+  const openForm = (webhook: Webhook | null) => {
+    setEditing(webhook);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center">
+            <span className="material-icons mr-2">webhook</span>
+            Webhooks
+          </CardTitle>
+          <CardDescription>
+            Send disaster events to your own tools. Each request carries an
+            X-DisasterTrack-Signature header: an HMAC-SHA256 of the body using the webhook's secret.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openForm(null)}>
+          <span className="material-icons text-sm mr-1">add</span>
+          Add Webhook
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No webhooks yet
+          </p>
+        ) : (
+          webhooks.map(webhook => (
+            <div key={webhook.id} className="border rounded-md p-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-mono text-sm truncate">{webhook.url}</p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {webhook.events.map(event => (
+                      <Badge key={event} variant="outline">{WEBHOOK_EVENT_LABELS[event]}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1 capitalize">{describeFilters(webhook)}</p>
+                </div>
+                <Switch
+                  checked={webhook.active}
+                  onCheckedChange={(active) => toggleMutation.mutate({ id: webhook.id, active })}
+                  aria-label={webhook.active ? 'Pause webhook' : 'Resume webhook'}
+                />
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Input
+                  readOnly
+                  className="font-mono text-xs h-8"
+                  value={revealedId === webhook.id ? webhook.secret : '•'.repeat(32)}
+                  aria-label="Signing secret"
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setRevealedId(revealedId === webhook.id ? null : webhook.id)}
+                >
+                  {revealedId === webhook.id ? 'Hide' : 'Reveal'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => rotateMutation.mutate(webhook.id)}
+                  disabled={rotateMutation.isPending}
+                >
+                  Rotate
+                </Button>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => testMutation.mutate(webhook.id)}
+                  disabled={testMutation.isPending}
+                >
+                  <span className="material-icons text-sm mr-1">send</span>
+                  Send test event
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setExpandedId(expandedId === webhook.id ? null : webhook.id)}
+                >
+                  <span className="material-icons text-sm mr-1">history</span>
+                  {expandedId === webhook.id ? 'Hide deliveries' : 'Deliveries'}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => openForm(webhook)}>
+                  <span className="material-icons text-sm mr-1">edit</span>
+                  Edit
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" variant="outline" className="text-red-500">
+                      <span className="material-icons text-sm mr-1">delete</span>
+                      Delete
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete Webhook</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Events will stop being sent to {webhook.url} and its delivery log will be removed.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => deleteMutation.mutate(webhook.id)}
+                        className="bg-red-500 hover:bg-red-600"
+                      >
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+
+              {expandedId === webhook.id && <WebhookDeliveryLog webhookId={webhook.id} />}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <WebhookForm
+        open={isFormOpen}
+        webhook={editing}
+        isSaving={saveMutation.isPending}
+        onSubmit={(input) => saveMutation.mutate(input)}
+        onClose={() => setIsFormOpen(false)}
+      />
+    </Card>
+  );
+};
+
+export default WebhookSettings;
@@ -0,0 +1,90 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { User } from '@/lib/types';
+import { login, logout, register } from '@/lib/api';
+import { disablePush } from '@/lib/push';
+import { getQueryFn, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+// Queries whose data belongs to the logged-in user and must not outlive a session
+const USER_SCOPED_QUERIES = ['/api/preferences', '/api/locations', '/api/alerts/history', '/api/alerts/history/unread-count', '/api/webhooks'];
+
+function resetUserQueries(user: User | null) {
+  queryClient.setQueryData(['/api/auth/me'], user);
+  USER_SCOPED_QUERIES.forEach(key => queryClient.removeQueries({ queryKey: [key] }));
+}
+
+export function useAuth() {
+  const { toast } = useToast();
+
+  const { data: user = null, isLoading } = useQuery<User | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: login,
+    onSuccess: (user) => {
+      resetUserQueries(user);
+      toast({
+        title: "Welcome back",
+        description: `Logged in as ${user.username}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Login failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: register,
+    onSuccess: (user) => {
+      resetUserQueries(user);
+      toast({
+        title: "Account created",
+        description: `Welcome to DisasterTrack, ${user.username}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Registration failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      // Stop this browser receiving the signed-out user's alerts
+      await disablePush().catch(() => {});
+      await logout();
+    },
+    onSuccess: () => {
+      resetUserQueries(null);
+      queryClient.removeQueries({ queryKey: ['push-subscription'] });
+      toast({
+        title: "Logged out",
+        description: "You have been signed out of your account",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Logout failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return {
+    user,
+    isLoading,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+  };
+}
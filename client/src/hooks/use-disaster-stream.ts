@@ -0,0 +1,40 @@
+import { useEffect } from 'react';
+import { QueryKey } from '@tanstack/react-query';
+import type { DisasterSubscription } from '@shared/realtime';
+import { Disaster } from '@/lib/types';
+import { queryClient } from '@/lib/queryClient';
+import { subscribeToDisasters, DisasterEventMessage } from '@/lib/realtime';
+
+// Keep a cached disaster list current from live server events instead of
+// polling. filters should match the ones the query was fetched with.
+export function useDisasterStream(queryKey: QueryKey, filters: DisasterSubscription) {
+  // Compare by value so a new object with the same filters on each render
+  // does not re-create the subscription
+  const queryKeyHash = JSON.stringify(queryKey);
+  const filtersHash = JSON.stringify(filters);
+
+  useEffect(() => {
+    return subscribeToDisasters(JSON.parse(filtersHash), {
+      onEvent: (message) => {
+        queryClient.setQueryData<Disaster[]>(queryKey, (disasters) =>
+          disasters && applyDisasterEvent(disasters, message)
+        );
+      },
+      onReconnect: () => {
+        queryClient.invalidateQueries({ queryKey, exact: true });
+      },
+    });
+  }, [queryKeyHash, filtersHash]);
+}
+
+function applyDisasterEvent(disasters: Disaster[], { event, disaster }: DisasterEventMessage): Disaster[] {
+  if (event === 'expired' || event === 'removed') {
+    return disasters.filter(d => d.id !== disaster.id);
+  }
+
+  const index = disasters.findIndex(d => d.id === disaster.id);
+  if (index === -1) {
+    return [disaster, ...disasters];
+  }
+  return disasters.map(d => d.id === disaster.id ? disaster : d);
+}
@@ -0,0 +1,55 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { isPushSupported, getPushSubscription, enablePush, disablePush } from '@/lib/push';
+import { useToast } from '@/hooks/use-toast';
+
+const PUSH_QUERY_KEY = ['push-subscription'];
+
+// Whether this browser receives alert push notifications. Subscriptions are
+// per browser, so this is separate from the account's saved preferences.
+export function usePushNotifications() {
+  const { toast } = useToast();
+  const supported = isPushSupported();
+
+  const { data: subscription = null, isLoading } = useQuery({
+    queryKey: PUSH_QUERY_KEY,
+    queryFn: getPushSubscription,
+    enabled: supported,
+  });
+
+  const onError = (error: Error) => {
+    queryClient.invalidateQueries({ queryKey: PUSH_QUERY_KEY });
+    toast({
+      title: "Push notifications",
+      description: error.message || "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const enableMutation = useMutation({
+    mutationFn: enablePush,
+    onSuccess: (next) => {
+      queryClient.setQueryData(PUSH_QUERY_KEY, next);
+      toast({
+        title: "Push notifications enabled",
+        description: "Alerts will appear on this device even when DisasterTrack is closed",
+      });
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: disablePush,
+    onSuccess: () => {
+      queryClient.setQueryData(PUSH_QUERY_KEY, null);
+    },
+    onError,
+  });
+
+  return {
+    supported,
+    enabled: subscription !== null,
+    isPending: isLoading || enableMutation.isPending || disableMutation.isPending,
+    setEnabled: (enabled: boolean) => enabled ? enableMutation.mutate() : disableMutation.mutate(),
+  };
+}
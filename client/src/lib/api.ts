@@ -1,6 +1,61 @@
-import { Disaster, DisasterType, AlertType, Location, EmergencyResource, SafetyGuide, DisasterStats } from './types';
+import { Disaster, Incident, DisasterType, AlertType, AlertPreferences, AlertHistoryItem, AlertHistoryPage, AlertHistoryFilters, Location, SavedLocation, User, Webhook, WebhookInput, WebhookDelivery, EmergencyResource, SafetyGuide, DisasterStats } from './types';
 import { apiRequest } from './queryClient';
 
+// Auth API
+export async function register(account: {
+  username: string,
+  email: string,
+  password: string
+}): Promise<User> {
+  const res = await apiRequest('POST', '/api/auth/register', account);
+  return await res.json();
+}
+
+export async function login(credentials: {
+  username: string,
+  password: string
+}): Promise<User> {
+  const res = await apiRequest('POST', '/api/auth/login', credentials);
+  return await res.json();
+}
+
+export async function logout(): Promise<void> {
+  await apiRequest('POST', '/api/auth/logout');
+}
+
+export async function updateContactInfo(contact: {
+  email?: string,
+  phone?: string | null
+}): Promise<User> {
+  const res = await apiRequest('PATCH', '/api/auth/me', contact);
+  return await res.json();
+}
+
+export async function sendPhoneVerificationCode(): Promise<void> {
+  await apiRequest('POST', '/api/auth/phone/send-code');
+}
+
+export async function verifyPhone(code: string): Promise<User> {
+  const res = await apiRequest('POST', '/api/auth/phone/verify', { code });
+  return await res.json();
+}
+
+// Web Push API
+export async function getPushPublicKey(): Promise<string> {
+  const res = await fetch('/api/push/public-key');
+  if (!res.ok) throw new Error('Failed to fetch push public key');
+  const { publicKey } = await res.json();
+  return publicKey;
+}
+
+export async function savePushSubscription(subscription: PushSubscriptionJSON): Promise<void> {
+  await apiRequest('POST', '/api/push/subscriptions', subscription);
+}
+
+export async function deletePushSubscription(endpoint: string): Promise<void> {
+  await apiRequest('DELETE', '/api/push/subscriptions', { endpoint });
+}
+
 // Location API
 export async function searchLocation(query: string): Promise<Location[]> {
   const res = await fetch(`/api/geocode?query=${encodeURIComponent(query)}`);
@@ -35,13 +90,15 @@ export async function detectUserLocation(): Promise<Location> {
 }
 
 // Disaster APIs
-export async function getDisasters(filters?: {
+export interface DisasterQuery {
   types?: DisasterType[],
   alertTypes?: AlertType[],
   timeRange?: string,
   location?: Location,
   radius?: number
-}): Promise<Disaster[]> {
+}
+
+function disasterQueryParams(filters?: DisasterQuery): URLSearchParams {
   const params = new URLSearchParams();
   
   if (filters?.types?.length) {
@@ -60,18 +117,49 @@ export async function getDisasters(filters?: {
   if (filters?.radius) {
     params.append('radius', filters.radius.toString());
   }
-  
-  const res = await fetch(`/api/disasters?${params.toString()}`);
+  return params;
+}
+
+export async function getDisasters(filters?: DisasterQuery): Promise<Disaster[]> {
+  const res = await fetch(`/api/disasters?${disasterQueryParams(filters).toString()}`);
   if (!res.ok) throw new Error('Failed to fetch disasters');
   return await res.json();
 }
 
-export async function getDisasterById(id: string): Promise<Disaster> {
+// Disasters grouped so that one event reported by several sources is one incident
+export async function getIncidents(filters?: DisasterQuery): Promise<Incident[]> {
+  const res = await fetch(`/api/incidents?${disasterQueryParams(filters).toString()}`);
+  if (!res.ok) throw new Error('Failed to fetch incidents');
+  return await res.json();
+}
+
+export async function getDisasterById(id: number): Promise<Disaster> {
   const res = await fetch(`/api/disasters/${id}`);
   if (!res.ok) throw new Error('Failed to fetch disaster details');
   return await res.json();
 }
 
+// ShakeMap intensity (MMI) at a location for an earthquake; null outside its ShakeMap
+export async function getShakingIntensity(disasterId: number, location: Location): Promise<{ mmi: number | null }> {
+  const params = new URLSearchParams({
+    lat: location.latitude.toString(),
+    lon: location.longitude.toString()
+  });
+  const res = await fetch(`/api/disasters/${disasterId}/intensity?${params.toString()}`);
+  if (!res.ok) throw new Error('Failed to fetch shaking intensity');
+  return await res.json();
+}
+
+export async function getWindArrival(disasterId: number, location: Location): Promise<{ arrival: string | null }> {
+  const params = new URLSearchParams({
+    lat: location.latitude.toString(),
+    lon: location.longitude.toString()
+  });
+  const res = await fetch(`/api/disasters/${disasterId}/wind-arrival?${params.toString()}`);
+  if (!res.ok) throw new Error('Failed to fetch wind arrival time');
+  return await res.json();
+}
+
 export async function getDisasterStats(): Promise<DisasterStats> {
   const res = await fetch('/api/disasters/stats');
   if (!res.ok) throw new Error('Failed to fetch disaster statistics');
@@ -112,45 +200,132 @@ export async function getSafetyGuides(disasterType?: DisasterType): Promise<Safe
 }
 
 // User Preferences API
-export async function saveAlertPreferences(preferences: {
-  emergencyWarnings: boolean,
-  watchesAdvisories: boolean,
-  smsNotifications: boolean,
-  emailAlerts: boolean,
-  disasterTypes: DisasterType[],
-  notificationRadius: number
-}): Promise<void> {
-  await apiRequest('POST', '/api/preferences', preferences);
-}
-
-export async function getAlertPreferences(): Promise<{
-  emergencyWarnings: boolean,
-  watchesAdvisories: boolean,
-  smsNotifications: boolean,
-  emailAlerts: boolean,
-  disasterTypes: DisasterType[],
-  notificationRadius: number
-}> {
+export async function saveAlertPreferences(preferences: AlertPreferences): Promise<AlertPreferences> {
+  const res = await apiRequest('POST', '/api/preferences', preferences);
+  return await res.json();
+}
+
+export async function updateAlertPreferences(preferences: Partial<AlertPreferences>): Promise<AlertPreferences> {
+  const res = await apiRequest('PATCH', '/api/preferences', preferences);
+  return await res.json();
+}
+
+export async function getAlertPreferences(): Promise<AlertPreferences> {
   const res = await fetch('/api/preferences');
   if (!res.ok) throw new Error('Failed to fetch alert preferences');
   return await res.json();
 }
 
-// Save Location API
+// Alert History API
+export async function getAlertHistory(filters: AlertHistoryFilters = {}): Promise<AlertHistoryPage> {
+  const params = new URLSearchParams();
+  
+  if (filters.page) {
+    params.append('page', filters.page.toString());
+  }
+  if (filters.pageSize) {
+    params.append('pageSize', filters.pageSize.toString());
+  }
+  if (filters.unread) {
+    params.append('unread', 'true');
+  }
+  if (filters.types?.length) {
+    params.append('types', filters.types.join(','));
+  }
+  if (filters.alertTypes?.length) {
+    params.append('alertTypes', filters.alertTypes.join(','));
+  }
+  
+  const res = await fetch(`/api/alerts/history?${params.toString()}`);
+  if (!res.ok) throw new Error('Failed to fetch alert history');
+  return await res.json();
+}
+
+export async function getUnreadAlertCount(): Promise<number> {
+  const res = await fetch('/api/alerts/history/unread-count');
+  if (!res.ok) throw new Error('Failed to fetch unread alert count');
+  const { count } = await res.json();
+  return count;
+}
+
+export async function markAlertRead(id: number): Promise<AlertHistoryItem> {
+  const res = await apiRequest('POST', `/api/alerts/history/${id}/read`);
+  return await res.json();
+}
+
+export async function markAllAlertsRead(): Promise<number> {
+  const res = await apiRequest('POST', '/api/alerts/history/read-all');
+  const { updated } = await res.json();
+  return updated;
+}
+
+// Saved Locations API
 export async function saveLocation(location: {
   name: string,
   latitude: number,
   longitude: number
-}): Promise<void> {
-  await apiRequest('POST', '/api/locations', location);
+}): Promise<SavedLocation> {
+  const res = await apiRequest('POST', '/api/locations', location);
+  return await res.json();
 }
 
-export async function getSavedLocations(): Promise<Location[]> {
+export async function getSavedLocations(): Promise<SavedLocation[]> {
   const res = await fetch('/api/locations');
   if (!res.ok) throw new Error('Failed to fetch saved locations');
   return await res.json();
 }
 
-export async function deleteSavedLocation(id: string): Promise<void> {
+export async function updateSavedLocation(id: number, update: {
+  name?: string,
+  latitude?: number,
+  longitude?: number
+}): Promise<SavedLocation> {
+  const res = await apiRequest('PATCH', `/api/locations/${id}`, update);
+  return await res.json();
+}
+
+export async function reorderSavedLocations(ids: number[]): Promise<SavedLocation[]> {
+  const res = await apiRequest('PUT', '/api/locations/order', { ids });
+  return await res.json();
+}
+
+export async function deleteSavedLocation(id: number): Promise<void> {
   await apiRequest('DELETE', `/api/locations/${id}`);
 }
+
+// Webhooks API
+export async function getWebhooks(): Promise<Webhook[]> {
+  const res = await fetch('/api/webhooks');
+  if (!res.ok) throw new Error('Failed to fetch webhooks');
+  return await res.json();
+}
+
+export async function createWebhook(webhook: WebhookInput): Promise<Webhook> {
+  const res = await apiRequest('POST', '/api/webhooks', webhook);
+  return await res.json();
+}
+
+export async function updateWebhook(id: number, update: Partial<WebhookInput>): Promise<Webhook> {
+  const res = await apiRequest('PATCH', `/api/webhooks/${id}`, update);
+  return await res.json();
+}
+
+export async function deleteWebhook(id: number): Promise<void> {
+  await apiRequest('DELETE', `/api/webhooks/${id}`);
+}
+
+export async function rotateWebhookSecret(id: number): Promise<Webhook> {
+  const res = await apiRequest('POST', `/api/webhooks/${id}/secret`);
+  return await res.json();
+}
+
+export async function sendTestWebhook(id: number): Promise<WebhookDelivery> {
+  const res = await apiRequest('POST', `/api/webhooks/${id}/test`);
+  return await res.json();
+}
+
+export async function getWebhookDeliveries(id: number): Promise<WebhookDelivery[]> {
+  const res = await fetch(`/api/webhooks/${id}/deliveries`);
+  if (!res.ok) throw new Error('Failed to fetch webhook deliveries');
+  return await res.json();
+}
@@ -0,0 +1,8 @@
+import type { CSSProperties } from 'react';
+import { getHazard } from '@shared/hazards';
+
+// Card background in a hazard's color, darkening toward the bottom right
+export const getHazardGradient = (type: string): CSSProperties => {
+  const { color } = getHazard(type);
+  return { backgroundImage: `linear-gradient(to bottom right, ${color}, color-mix(in srgb, ${color} 65%, black))` };
+};
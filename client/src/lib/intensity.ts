@@ -0,0 +1,30 @@
+// Modified Mercalli Intensity scale, as colored on USGS ShakeMaps
+const MMI_LEVELS: { roman: string, label: string, color: string }[] = [
+  { roman: 'I', label: 'Not felt', color: '#ffffff' },
+  { roman: 'II', label: 'Weak', color: '#bfccff' },
+  { roman: 'III', label: 'Weak', color: '#bfccff' },
+  { roman: 'IV', label: 'Light', color: '#a0e6ff' },
+  { roman: 'V', label: 'Moderate', color: '#80ffff' },
+  { roman: 'VI', label: 'Strong', color: '#7aff93' },
+  { roman: 'VII', label: 'Very strong', color: '#ffff00' },
+  { roman: 'VIII', label: 'Severe', color: '#ffc800' },
+  { roman: 'IX', label: 'Violent', color: '#ff9100' },
+  { roman: 'X+', label: 'Extreme', color: '#ff0000' },
+];
+
+const levelOf = (mmi: number) => MMI_LEVELS[Math.min(Math.max(Math.round(mmi), 1), 10) - 1];
+
+export const getIntensityColor = (mmi: number) => levelOf(mmi).color;
+
+// e.g. "VI (Strong)"
+export const describeIntensity = (mmi: number) => {
+  const level = levelOf(mmi);
+  return `${level.roman} (${level.label})`;
+};
+
+export const PAGER_ALERT_COLORS: Record<string, string> = {
+  green: 'bg-green-500',
+  yellow: 'bg-yellow-400',
+  orange: 'bg-orange-500',
+  red: 'bg-red-600',
+};
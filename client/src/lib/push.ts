@@ -0,0 +1,67 @@
+import { getPushPublicKey, savePushSubscription, deletePushSubscription } from './api';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export function isPushSupported(): boolean {
+  return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+async function getRegistration(): Promise<ServiceWorkerRegistration> {
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  return navigator.serviceWorker.ready;
+}
+
+// The subscription this browser currently holds, if any
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+// Ask for permission, subscribe this browser and register it with the server.
+// Re-saving an existing subscription moves it to the signed-in user.
+export async function enablePush(): Promise<PushSubscription> {
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site. Allow them in your browser settings.');
+  }
+
+  const registration = await getRegistration();
+  const publicKey = await getPushPublicKey();
+
+  let subscription = await registration.pushManager.getSubscription();
+  // A subscription made with an older server key can no longer be delivered to
+  if (subscription && !hasKey(subscription, publicKey)) {
+    await subscription.unsubscribe();
+    subscription = null;
+  }
+  subscription ??= await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(publicKey),
+  });
+
+  await savePushSubscription(subscription.toJSON());
+  return subscription;
+}
+
+export async function disablePush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  await deletePushSubscription(subscription.endpoint);
+  await subscription.unsubscribe();
+}
+
+function hasKey(subscription: PushSubscription, publicKey: string): boolean {
+  const key = subscription.options.applicationServerKey;
+  if (!key) return false;
+
+  const expected = urlBase64ToUint8Array(publicKey);
+  const actual = new Uint8Array(key);
+  return actual.length === expected.length && actual.every((byte, i) => byte === expected[i]);
+}
+
+function urlBase64ToUint8Array(value: string): Uint8Array {
+  const base64 = (value + '='.repeat((4 - value.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
@@ -0,0 +1,89 @@
+import { REALTIME_PATH, type DisasterSubscription, type RealtimeClientMessage, type RealtimeServerMessage } from '@shared/realtime';
+import { Disaster } from './types';
+
+export type DisasterEventMessage = Extract<RealtimeServerMessage<Disaster>, { type: 'disaster' }>;
+
+interface SubscriptionHandlers {
+  onEvent: (message: DisasterEventMessage) => void;
+  // Called after a dropped connection comes back, since events may have been missed
+  onReconnect: () => void;
+}
+
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+// One socket is shared by every subscription on the page
+const subscriptions = new Map<string, { filters: DisasterSubscription } & SubscriptionHandlers>();
+let socket: WebSocket | null = null;
+let hasConnected = false;
+let retryDelay = 1000;
+let nextId = 1;
+
+export function subscribeToDisasters(
+  filters: DisasterSubscription,
+  handlers: SubscriptionHandlers
+): () => void {
+  const id = `sub-${nextId++}`;
+  subscriptions.set(id, { filters, ...handlers });
+
+  if (!socket) {
+    connect();
+  } else {
+    send({ type: 'subscribe', id, filters });
+  }
+
+  return () => {
+    subscriptions.delete(id);
+    send({ type: 'unsubscribe', id });
+
+    if (subscriptions.size === 0 && socket) {
+      const closing = socket;
+      socket = null;
+      closing.close();
+    }
+  };
+}
+
+function connect() {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const ws = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`);
+  socket = ws;
+
+  ws.onopen = () => {
+    retryDelay = 1000;
+    subscriptions.forEach(({ filters }, id) => send({ type: 'subscribe', id, filters }));
+
+    if (hasConnected) {
+      subscriptions.forEach(({ onReconnect }) => onReconnect());
+    }
+    hasConnected = true;
+  };
+
+  ws.onmessage = (event) => {
+    const message: RealtimeServerMessage<Disaster> = JSON.parse(event.data);
+
+    if (message.type === 'disaster') {
+      message.subscriptions.forEach(id => subscriptions.get(id)?.onEvent(message));
+    } else {
+      console.error('Realtime error:', message.message);
+    }
+  };
+
+  ws.onclose = () => {
+    // A socket closed on purpose has already been replaced or released
+    if (socket !== ws) return;
+    socket = null;
+
+    if (subscriptions.size > 0) {
+      setTimeout(() => {
+        if (!socket && subscriptions.size > 0) connect();
+      }, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+    }
+  };
+}
+
+function send(message: RealtimeClientMessage) {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
@@ -1,3 +1,11 @@
+import { DisasterType } from '@shared/hazards';
+import type { DeclarationSummary, DisasterGeometry, UserPreferences, WebhookEvent, WebhookFilters } from '@shared/schema';
+
+export type { DeclarationSummary, DisasterGeometry, WebhookEvent, WebhookFilters };
+
+// Hazard types and their icons, labels and colors are shared with the server
+export { DisasterType };
+
 // API Response Types
 export interface USGSEarthquake {
   id: string;
@@ -105,9 +113,14 @@ export interface Location {
   longitude: number;
 }
 
+export interface SavedLocation extends Location {
+  id: number;
+  position: number;
+}
+
 export interface Disaster {
-  id: string;
-  type: DisasterType;
+  id: number;
+  disasterType: DisasterType;
   alertType: AlertType;
   title: string;
   description: string;
@@ -117,6 +130,7 @@ export interface Disaster {
   source: string;
   timestamp: Date;
   validUntil?: Date;
+  geometry?: DisasterGeometry | null; // affected area as GeoJSON, when the source provides one
   data: {
     magnitude?: number;
     windSpeed?: number;
@@ -127,11 +141,13 @@ export interface Disaster {
   };
 }
 
-export enum DisasterType {
-  Earthquake = "earthquake",
-  Flood = "flood",
-  Storm = "storm",
-  Wildfire = "wildfire"
+// Reports from one or more sources that describe the same event
+export interface Incident {
+  id: number; // id of the primary report
+  primary: Disaster; // the most severe report, shown for the whole incident
+  reports: Disaster[]; // every report, primary first
+  sources: string[];
+  declarations: DeclarationSummary[]; // active FEMA declarations covering the incident
 }
 
 export enum AlertType {
@@ -140,13 +156,75 @@ export enum AlertType {
   Advisory = "advisory"
 }
 
-export interface AlertPreferences {
-  emergencyWarnings: boolean;
-  watchesAdvisories: boolean;
-  smsNotifications: boolean;
-  emailAlerts: boolean;
-  disasterTypes: DisasterType[];
-  notificationRadius: number;
+export interface User {
+  id: number;
+  username: string;
+  email: string;
+  phone: string | null;
+  phoneVerified: boolean;
+  location: string | null;
+  preferences: AlertPreferences | null;
+}
+
+// Validated on the server by userPreferencesSchema
+export type AlertPreferences = UserPreferences;
+
+// An alert the server sent to the user, from their alert history inbox
+export interface AlertHistoryItem {
+  id: number;
+  userId: number;
+  alertType: AlertType;
+  disasterType: DisasterType;
+  message: string;
+  location: string;
+  externalId: string | null;
+  distance: number | null; // km from the saved location
+  timestamp: string;
+  read: boolean;
+}
+
+export interface AlertHistoryPage {
+  alerts: AlertHistoryItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  unreadCount: number;
+}
+
+export interface AlertHistoryFilters {
+  page?: number;
+  pageSize?: number;
+  unread?: boolean;
+  types?: DisasterType[];
+  alertTypes?: AlertType[];
+}
+
+// An outbound webhook registration. The secret signs each delivery.
+export interface Webhook {
+  id: number;
+  userId: number;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  filters: WebhookFilters;
+  active: boolean;
+  createdAt: string;
+}
+
+export type WebhookInput = Pick<Webhook, 'url' | 'events' | 'filters' | 'active'>;
+
+// One event sent to a webhook, from its delivery log
+export interface WebhookDelivery {
+  id: number;
+  webhookId: number;
+  event: WebhookEvent | 'test';
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  lastAttemptAt: string | null;
+  sentAt: string | null;
+  createdAt: string;
 }
 
 export interface EmergencyResource {
@@ -169,6 +247,19 @@ export interface SafetyGuide {
   url: string;
 }
 
+export interface SourceStatus {
+  source: string;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  recordCount: number;
+}
+
+export interface DisasterFreshness {
+  lastUpdated: string | null;
+  sources: SourceStatus[];
+}
+
 export interface DisasterStats {
   warnings: number;
   watches: number;
@@ -4,3 +4,16 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+// For feed and user text placed in HTML strings, e.g. Leaflet popups and tooltips
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ENTITIES[char]);
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { Disaster, Location, DisasterType, AlertType } from '@/lib/types';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { Disaster, Incident, Location, DisasterType, AlertType } from '@/lib/types';
 import { motion } from 'framer-motion';
 
 // Components
@@ -15,7 +15,8 @@ import SafetyGuides from '@/components/resources/SafetyGuides';
 import AlertModal from '@/components/alerts/AlertModal';
 
 // API
-import { getDisasters, detectUserLocation } from '@/lib/api';
+import { getDisasters, getIncidents, getDisasterById, detectUserLocation } from '@/lib/api';
+import { useDisasterStream } from '@/hooks/use-disaster-stream';
 
 const Dashboard = () => {
   const [userLocation, setUserLocation] = useState<Location | null>(null);
@@ -41,17 +42,52 @@ const Dashboard = () => {
     loadLocation();
   }, []);
   
+  // Open the disaster linked from a notification, e.g. /?disaster=42
+  useEffect(() => {
+    const id = parseInt(new URLSearchParams(window.location.search).get('disaster') || '');
+    if (isNaN(id)) return;
+    
+    getDisasterById(id)
+      .then((disaster) => {
+        setFocusedDisaster(disaster);
+        setIsAlertModalOpen(true);
+      })
+      .catch((error) => console.error("Failed to load linked disaster:", error));
+  }, []);
+  
   // Fetch disasters based on location and filters
-  const { data: disasters = [], isLoading } = useQuery<Disaster[]>({
-    queryKey: ['/api/disasters', filters, userLocation],
-    queryFn: () => getDisasters({
-      types: filters.types.length > 0 ? filters.types : undefined,
-      alertTypes: filters.alertTypes.length > 0 ? filters.alertTypes : undefined,
-      timeRange: filters.timeRange,
-      location: userLocation || undefined,
+  const disasterQuery = {
+    types: filters.types.length > 0 ? filters.types : undefined,
+    alertTypes: filters.alertTypes.length > 0 ? filters.alertTypes : undefined,
+    timeRange: filters.timeRange,
+    location: userLocation || undefined,
+    radius: 100
+  };
+  const disastersQueryKey = ['/api/disasters', filters, userLocation];
+  const { data: disasters = [], isLoading, dataUpdatedAt } = useQuery<Disaster[]>({
+    queryKey: disastersQueryKey,
+    queryFn: () => getDisasters(disasterQuery),
+  });
+  
+  // The list groups the same disasters into incidents, so regroup whenever
+  // the disasters change, including from live events
+  const { data: incidents = [] } = useQuery<Incident[]>({
+    queryKey: ['/api/incidents', filters, userLocation, dataUpdatedAt],
+    queryFn: () => getIncidents(disasterQuery),
+    enabled: dataUpdatedAt > 0,
+    placeholderData: keepPreviousData,
+  });
+  
+  // Then keep the list current from live events matching the same filters
+  useDisasterStream(disastersQueryKey, {
+    types: filters.types.length > 0 ? filters.types : undefined,
+    alertTypes: filters.alertTypes.length > 0 ? filters.alertTypes : undefined,
+    timeRange: filters.timeRange,
+    ...(userLocation && {
+      latitude: userLocation.latitude,
+      longitude: userLocation.longitude,
       radius: 100
-    }),
-    refetchInterval: 60000, // Refresh every minute
+    })
   });
   
   // Check for severe disasters and show alert modal
@@ -142,7 +178,8 @@ const Dashboard = () => {
             </div>
             
             <DisasterList 
-              disasters={disasters}
+              incidents={incidents}
+              userLocation={userLocation || undefined}
               onViewDetails={handleDisasterSelect}
             />
           </motion.div>
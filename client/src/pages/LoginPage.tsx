@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'react';
+import { Link, useLocation } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const LoginPage = () => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [, setLocation] = useLocation();
+  const { user, loginMutation } = useAuth();
+  
+  // Leave the page once a session exists
+  useEffect(() => {
+    if (user) {
+      setLocation('/');
+    }
+  }, [user, setLocation]);
+  
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate({ username: username.trim(), password });
+  };
+  
+  return (
+    <div className="container mx-auto px-4 py-12 flex justify-center">
+      <Card className="w-full max-w-md">
+        <form onSubmit={handleSubmit}>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <span className="material-icons mr-2">login</span>
+              Log In
+            </CardTitle>
+            <CardDescription>
+              Sign in to manage your alert preferences and monitored locations
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="username">Username</Label>
+              <Input 
+                id="username" 
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="password">Password</Label>
+              <Input 
+                id="password" 
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </CardContent>
+          <CardFooter className="flex flex-col space-y-3">
+            <Button 
+              type="submit"
+              className="w-full"
+              disabled={loginMutation.isPending || !username.trim() || !password}
+            >
+              {loginMutation.isPending ? 'Logging in...' : 'Log In'}
+            </Button>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Don't have an account?{' '}
+              <Link href="/register" className="text-primary hover:underline">Create one</Link>
+            </p>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default LoginPage;
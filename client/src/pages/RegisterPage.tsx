@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+import { Link, useLocation } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const RegisterPage = () => {
+  const [username, setUsername] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [, setLocation] = useLocation();
+  const { user, registerMutation } = useAuth();
+  
+  // Leave the page once a session exists
+  useEffect(() => {
+    if (user) {
+      setLocation('/settings');
+    }
+  }, [user, setLocation]);
+  
+  const passwordTooShort = password.length > 0 && password.length < 8;
+  const passwordsDiffer = confirmPassword.length > 0 && password !== confirmPassword;
+  
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    registerMutation.mutate({
+      username: username.trim(),
+      email: email.trim(),
+      password
+    });
+  };
+  
+  return (
+    <div className="container mx-auto px-4 py-12 flex justify-center">
+      <Card className="w-full max-w-md">
+        <form onSubmit={handleSubmit}>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <span className="material-icons mr-2">person_add</span>
+              Create Account
+            </CardTitle>
+            <CardDescription>
+              Save locations and get alerts for disasters that affect you
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="username">Username</Label>
+              <Input 
+                id="username" 
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="email">Email Address</Label>
+              <Input 
+                id="email" 
+                type="email"
+                autoComplete="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="password">Password</Label>
+              <Input 
+                id="password" 
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="mt-1"
+              />
+              {passwordTooShort && (
+                <p className="text-xs text-red-500 mt-1">Password must be at least 8 characters</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="confirm-password">Confirm Password</Label>
+              <Input 
+                id="confirm-password" 
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="mt-1"
+              />
+              {passwordsDiffer && (
+                <p className="text-xs text-red-500 mt-1">Passwords do not match</p>
+              )}
+            </div>
+          </CardContent>
+          <CardFooter className="flex flex-col space-y-3">
+            <Button 
+              type="submit"
+              className="w-full"
+              disabled={
+                registerMutation.isPending || !username.trim() || !email.trim() ||
+                password.length < 8 || password !== confirmPassword
+              }
+            >
+              {registerMutation.isPending ? 'Creating account...' : 'Create Account'}
+            </Button>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Already have an account?{' '}
+              <Link href="/login" className="text-primary hover:underline">Log in</Link>
+            </p>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default RegisterPage;
@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { SafetyGuide, EmergencyResource, DisasterType, Location } from '@/lib/types';
+import { SafetyGuide, EmergencyResource, Location } from '@/lib/types';
+import { getHazardGradient } from '@/lib/hazards';
+import { getHazard } from '@shared/hazards';
 import { getSafetyGuides, getEmergencyResources, detectUserLocation } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -51,31 +53,6 @@ const ResourcesPage = () => {
     }
   };
 
-  const getGradient = (type: DisasterType) => {
-    switch (type) {
-      case DisasterType.Storm:
-        return 'from-blue-500 to-blue-700';
-      case DisasterType.Earthquake:
-        return 'from-amber-500 to-amber-700';
-      case DisasterType.Flood:
-        return 'from-cyan-500 to-cyan-700';
-      case DisasterType.Wildfire:
-        return 'from-red-500 to-red-700';
-      default:
-        return 'from-gray-500 to-gray-700';
-    }
-  };
-
-  const getDisasterIcon = (type: DisasterType) => {
-    switch (type) {
-      case DisasterType.Storm: return 'flash_on';
-      case DisasterType.Earthquake: return 'vibration';
-      case DisasterType.Flood: return 'water';
-      case DisasterType.Wildfire: return 'local_fire_department';
-      default: return 'warning';
-    }
-  };
-
   const getResourceIcon = (type: string) => {
     switch (type) {
       case 'hospital': return 'local_hospital';
@@ -135,12 +112,13 @@ const ResourcesPage = () => {
                   {guides.map((guide) => (
                     <motion.div
                       key={guide.id}
-                      className={`bg-gradient-to-br ${getGradient(guide.disasterType)} text-white rounded-lg p-6 relative overflow-hidden h-full`}
+                      className="text-white rounded-lg p-6 relative overflow-hidden h-full"
+                      style={getHazardGradient(guide.disasterType)}
                       variants={itemVariants}
                       whileHover={{ scale: 1.02, transition: { duration: 0.2 } }}
                     >
                       <div className="absolute right-0 bottom-0 opacity-20">
-                        <span className="material-icons text-8xl">{getDisasterIcon(guide.disasterType)}</span>
+                        <span className="material-icons text-8xl">{getHazard(guide.disasterType).icon}</span>
                       </div>
                       <h3 className="text-xl font-semibold mb-3">{guide.title}</h3>
                       <p className="text-sm mb-6 opacity-90">{guide.description}</p>
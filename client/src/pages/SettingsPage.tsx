@@ -1,8 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { AlertPreferences, DisasterType, Location } from '@/lib/types';
-import { getSavedLocations, saveLocation, deleteSavedLocation, getAlertPreferences, saveAlertPreferences } from '@/lib/api';
+import { AlertPreferences, DisasterType, Location, SavedLocation } from '@/lib/types';
+import { hazardCategories } from '@shared/hazards';
+import { getSavedLocations, saveLocation, updateSavedLocation, reorderSavedLocations, deleteSavedLocation, getAlertPreferences, saveAlertPreferences, updateContactInfo } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { usePushNotifications } from '@/hooks/use-push-notifications';
 
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
@@ -21,6 +24,8 @@ import {
 } from "@/components/ui/select";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import LocationSelector from '@/components/locations/LocationSelector';
+import PhoneVerification from '@/components/auth/PhoneVerification';
+import WebhookSettings from '@/components/webhooks/WebhookSettings';
 
 const SettingsPage = () => {
   const [preferences, setPreferences] = useState<AlertPreferences>({
@@ -28,7 +33,7 @@ const SettingsPage = () => {
     watchesAdvisories: true,
     smsNotifications: false,
     emailAlerts: true,
-    disasterTypes: [DisasterType.Earthquake, DisasterType.Storm, DisasterType.Flood, DisasterType.Wildfire],
+    disasterTypes: hazardCategories.map(hazard => hazard.id),
     notificationRadius: 50
   });
   
@@ -36,30 +41,46 @@ const SettingsPage = () => {
   const [email, setEmail] = useState('');
   const [newLocationName, setNewLocationName] = useState('');
   const [selectedLocation, setSelectedLocation] = useState<Location | null>(null);
+  const [editingLocationId, setEditingLocationId] = useState<number | null>(null);
+  const [editingLocationName, setEditingLocationName] = useState('');
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const push = usePushNotifications();
+  
+  // Start the contact form from the account's current details
+  useEffect(() => {
+    if (user) {
+      setPhoneNumber(user.phone ?? '');
+      setEmail(user.email);
+    }
+  }, [user]);
   
   // Get saved preferences
-  const { data: savedPreferences } = useQuery({
+  const { data: savedPreferences, isLoading: isLoadingPreferences, isError: preferencesError } = useQuery({
     queryKey: ['/api/preferences'],
     queryFn: getAlertPreferences,
-    onSuccess: (data) => {
-      if (data) {
-        setPreferences(data);
-      }
-    },
-    onError: () => {
+  });
+  
+  useEffect(() => {
+    if (savedPreferences) {
+      setPreferences(savedPreferences);
+    }
+  }, [savedPreferences]);
+  
+  useEffect(() => {
+    if (preferencesError) {
       toast({
         title: "Error loading preferences",
         description: "Could not load your alert preferences. Using defaults.",
         variant: "destructive",
       });
     }
-  });
+  }, [preferencesError, toast]);
   
   // Get saved locations
-  const { data: savedLocations = [] } = useQuery({
+  const { data: savedLocations = [] } = useQuery<SavedLocation[]>({
     queryKey: ['/api/locations'],
     queryFn: getSavedLocations,
   });
@@ -67,8 +88,8 @@ const SettingsPage = () => {
   // Save preferences mutation
   const savePrefsMutation = useMutation({
     mutationFn: (newPreferences: AlertPreferences) => saveAlertPreferences(newPreferences),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/preferences'] });
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['/api/preferences'], saved);
       toast({
         title: "Preferences saved",
         description: "Your alert preferences have been updated.",
@@ -83,6 +104,27 @@ const SettingsPage = () => {
     }
   });
   
+  // Update contact information mutation
+  const contactMutation = useMutation({
+    mutationFn: updateContactInfo,
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/auth/me'], updated);
+      toast({
+        title: "Contact information updated",
+        description: updated.phone && !updated.phoneVerified
+          ? "Verify your phone number to receive SMS alerts."
+          : "Your contact details have been saved.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update contact information",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+  
   // Save location mutation
   const saveLocationMutation = useMutation({
     mutationFn: (location: { name: string, latitude: number, longitude: number }) => saveLocation(location),
@@ -104,9 +146,44 @@ const SettingsPage = () => {
     }
   });
   
+  // Rename location mutation
+  const renameLocationMutation = useMutation({
+    mutationFn: ({ id, name }: { id: number, name: string }) => updateSavedLocation(id, { name }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/locations'] });
+      setEditingLocationId(null);
+      toast({
+        title: "Location renamed",
+        description: "Your monitoring location has been updated.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to rename location",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // Reorder locations mutation
+  const reorderLocationsMutation = useMutation({
+    mutationFn: (ids: number[]) => reorderSavedLocations(ids),
+    onSuccess: (locations) => {
+      queryClient.setQueryData(['/api/locations'], locations);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to reorder locations",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+  
   // Delete location mutation
   const deleteLocationMutation = useMutation({
-    mutationFn: (id: string) => deleteSavedLocation(id),
+    mutationFn: (id: number) => deleteSavedLocation(id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/locations'] });
       toast({
@@ -154,6 +231,29 @@ const SettingsPage = () => {
     savePrefsMutation.mutate(preferences);
   };
   
+  const handleStartRename = (location: SavedLocation) => {
+    setEditingLocationId(location.id);
+    setEditingLocationName(location.name);
+  };
+  
+  const handleRenameLocation = () => {
+    if (editingLocationId === null || !editingLocationName.trim()) return;
+    
+    renameLocationMutation.mutate({
+      id: editingLocationId,
+      name: editingLocationName.trim()
+    });
+  };
+  
+  const handleMoveLocation = (index: number, offset: -1 | 1) => {
+    const ids = savedLocations.map(location => location.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderLocationsMutation.mutate(ids);
+  };
+  
   const handleSaveLocation = () => {
     if (!selectedLocation) {
       toast({
@@ -250,6 +350,24 @@ const SettingsPage = () => {
                   onCheckedChange={() => handleToggle('emailAlerts')}
                 />
               </div>
+              
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <span className="material-icons text-gray-500">notifications_none</span>
+                  <div>
+                    <Label htmlFor="push-notifications">Push Notifications</Label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {push.supported ? 'On this device only' : 'Not supported in this browser'}
+                    </p>
+                  </div>
+                </div>
+                <Switch
+                  id="push-notifications"
+                  checked={push.enabled}
+                  onCheckedChange={push.setEnabled}
+                  disabled={!user || !push.supported || push.isPending}
+                />
+              </div>
             </div>
             
             <Separator />
@@ -277,50 +395,19 @@ const SettingsPage = () => {
             <div>
               <Label className="mb-2 block">Disaster Types</Label>
               <div className="grid grid-cols-2 gap-2">
-                <div className="flex items-center space-x-2">
-                  <Checkbox 
-                    id="earthquake" 
-                    checked={preferences.disasterTypes.includes(DisasterType.Earthquake)}
-                    onCheckedChange={() => handleDisasterTypeToggle(DisasterType.Earthquake)}
-                  />
-                  <Label htmlFor="earthquake" className="flex items-center">
-                    <span className="material-icons mr-1 text-sm">vibration</span>
-                    Earthquakes
-                  </Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Checkbox 
-                    id="storm" 
-                    checked={preferences.disasterTypes.includes(DisasterType.Storm)}
-                    onCheckedChange={() => handleDisasterTypeToggle(DisasterType.Storm)}
-                  />
-                  <Label htmlFor="storm" className="flex items-center">
-                    <span className="material-icons mr-1 text-sm">bolt</span>
-                    Storms
-                  </Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Checkbox 
-                    id="flood" 
-                    checked={preferences.disasterTypes.includes(DisasterType.Flood)}
-                    onCheckedChange={() => handleDisasterTypeToggle(DisasterType.Flood)}
-                  />
-                  <Label htmlFor="flood" className="flex items-center">
-                    <span className="material-icons mr-1 text-sm">water</span>
-                    Floods
-                  </Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Checkbox 
-                    id="wildfire" 
-                    checked={preferences.disasterTypes.includes(DisasterType.Wildfire)}
-                    onCheckedChange={() => handleDisasterTypeToggle(DisasterType.Wildfire)}
-                  />
-                  <Label htmlFor="wildfire" className="flex items-center">
-                    <span className="material-icons mr-1 text-sm">local_fire_department</span>
-                    Wildfires
-                  </Label>
-                </div>
+                {hazardCategories.map(hazard => (
+                  <div key={hazard.id} className="flex items-center space-x-2">
+                    <Checkbox 
+                      id={hazard.id} 
+                      checked={preferences.disasterTypes.includes(hazard.id)}
+                      onCheckedChange={() => handleDisasterTypeToggle(hazard.id)}
+                    />
+                    <Label htmlFor={hazard.id} className="flex items-center">
+                      <span className="material-icons mr-1 text-sm">{hazard.icon}</span>
+                      {hazard.pluralLabel}
+                    </Label>
+                  </div>
+                ))}
               </div>
             </div>
           </CardContent>
@@ -328,7 +415,7 @@ const SettingsPage = () => {
             <Button 
               className="w-full" 
               onClick={handleSavePreferences}
-              disabled={savePrefsMutation.isPending}
+              disabled={savePrefsMutation.isPending || isLoadingPreferences}
             >
               {savePrefsMutation.isPending ? 'Saving...' : 'Save Preferences'}
             </Button>
@@ -356,36 +443,87 @@ const SettingsPage = () => {
                   </div>
                 ) : (
                   <div className="space-y-2">
-                    {savedLocations.map((location: Location & { id?: string }) => (
+                    {savedLocations.map((location, index) => (
                       <div key={location.id} className="flex items-center justify-between p-3 border rounded-md">
+                        {editingLocationId === location.id ? (
+                          <div className="flex items-center flex-1 mr-2 space-x-2">
+                            <Input
+                              value={editingLocationName}
+                              onChange={(e) => setEditingLocationName(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleRenameLocation();
+                                if (e.key === 'Escape') setEditingLocationId(null);
+                              }}
+                              autoFocus
+                            />
+                            <Button 
+                              variant="ghost" 
+                              size="icon"
+                              onClick={handleRenameLocation}
+                              disabled={renameLocationMutation.isPending || !editingLocationName.trim()}
+                            >
+                              <span className="material-icons text-green-500">check</span>
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => setEditingLocationId(null)}>
+                              <span className="material-icons text-gray-500">close</span>
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex items-center">
+                            <span className="material-icons text-blue-500 mr-2">place</span>
+                            <div>
+                              <span>{location.name}</span>
+                              <p className="text-xs text-gray-500 font-mono">
+                                {location.latitude.toFixed(4)}, {location.longitude.toFixed(4)}
+                              </p>
+                            </div>
+                          </div>
+                        )}
                         <div className="flex items-center">
-                          <span className="material-icons text-blue-500 mr-2">place</span>
-                          <span>{location.name}</span>
+                          <Button 
+                            variant="ghost" 
+                            size="icon"
+                            onClick={() => handleMoveLocation(index, -1)}
+                            disabled={index === 0 || reorderLocationsMutation.isPending}
+                          >
+                            <span className="material-icons">arrow_upward</span>
+                          </Button>
+                          <Button 
+                            variant="ghost" 
+                            size="icon"
+                            onClick={() => handleMoveLocation(index, 1)}
+                            disabled={index === savedLocations.length - 1 || reorderLocationsMutation.isPending}
+                          >
+                            <span className="material-icons">arrow_downward</span>
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleStartRename(location)}>
+                            <span className="material-icons text-gray-500">edit</span>
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon">
+                                <span className="material-icons text-red-500">delete</span>
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Remove Location</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to remove "{location.name}" from your monitored locations?
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction 
+                                  className="bg-red-500 hover:bg-red-600"
+                                  onClick={() => deleteLocationMutation.mutate(location.id)}
+                                >
+                                  Remove
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
                         </div>
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button variant="ghost" size="icon">
-                              <span className="material-icons text-red-500">delete</span>
-                            </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Remove Location</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                Are you sure you want to remove "{location.name}" from your monitored locations?
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction 
-                                className="bg-red-500 hover:bg-red-600"
-                                onClick={() => location.id && deleteLocationMutation.mutate(location.id)}
-                              >
-                                Remove
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
                       </div>
                     ))}
                   </div>
@@ -460,6 +598,9 @@ const SettingsPage = () => {
                   Enable SMS notifications to update your phone number
                 </p>
               )}
+              {user && preferences.smsNotifications && (user.phone ?? '') === phoneNumber && (
+                <PhoneVerification user={user} />
+              )}
             </div>
             
             <div>
@@ -483,9 +624,18 @@ const SettingsPage = () => {
           </div>
         </CardContent>
         <CardFooter>
-          <Button className="w-full">Update Contact Information</Button>
+          <Button 
+            className="w-full"
+            onClick={() => contactMutation.mutate({ email: email.trim(), phone: phoneNumber.trim() })}
+            disabled={contactMutation.isPending || !email.trim()}
+          >
+            {contactMutation.isPending ? 'Saving...' : 'Update Contact Information'}
+          </Button>
         </CardFooter>
       </Card>
+      
+      {/* Webhooks */}
+      <WebhookSettings />
     </div>
   );
 };
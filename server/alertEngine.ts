@@ -0,0 +1,110 @@
+import { AlertHistory, Disaster, SavedLocation, User, UserPreferences } from '@shared/schema';
+import { storage } from './storage';
+import { AlertType, getAlertSeverity, getUserPreferences } from './utils/alertUtils';
+import { distanceToDisaster } from './utils/geoUtils';
+import { matchesHazardTypes } from '@shared/hazards';
+import { getTropicalStormWindArrival } from './api/nhc';
+import { dispatchAlerts } from './notifications';
+import { log } from './vite';
+
+// Disasters without an expiry older than this are history, not news. Keeps the
+// first backfill of a feed from flooding every inbox with month-old events.
+const MAX_ALERT_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Write an alert_history row for every user with a saved location affected by
+// the disaster. A user is alerted once per externalId, and again only if the
+// disaster is upgraded to a more severe alert type.
+export async function processDisaster(disaster: Disaster, now: Date = new Date()): Promise<AlertHistory[]> {
+  if (!isCurrent(disaster, now)) return [];
+
+  const severity = getAlertSeverity(disaster.alertType);
+  const alertedSeverity = new Map<number, number>();
+  for (const alert of await storage.getAlertsByExternalId(disaster.externalId)) {
+    if (alert.userId === null) continue;
+    alertedSeverity.set(
+      alert.userId,
+      Math.max(alertedSeverity.get(alert.userId) ?? 0, getAlertSeverity(alert.alertType))
+    );
+  }
+
+  const created: AlertHistory[] = [];
+
+  for (const user of await storage.getUsers()) {
+    if ((alertedSeverity.get(user.id) ?? 0) >= severity) continue;
+    const preferences = getUserPreferences(user);
+    if (!wantsAlert(preferences, disaster)) continue;
+
+    const affected = await findAffectedLocation(user, preferences.notificationRadius, disaster);
+    if (!affected) continue;
+
+    created.push(await storage.createAlert({
+      userId: user.id,
+      alertType: disaster.alertType,
+      disasterType: disaster.disasterType,
+      message: describeAlert(disaster, affected.location, now),
+      location: affected.location.name,
+      externalId: disaster.externalId,
+      distance: affected.distance,
+      timestamp: now,
+    }));
+  }
+
+  if (created.length > 0) {
+    log(`${disaster.externalId}: alerted ${created.length} user(s)`, 'alerts');
+    // Sending can be slow and failures are retried later, so don't hold up ingestion
+    void dispatchAlerts(created);
+  }
+  return created;
+}
+
+// Tropical cyclone alerts say when tropical-storm-force winds reach the location
+function describeAlert(disaster: Disaster, location: SavedLocation, now: Date): string {
+  const arrival = getTropicalStormWindArrival(
+    disaster,
+    parseFloat(location.latitude),
+    parseFloat(location.longitude)
+  );
+  if (!arrival) return disaster.title;
+
+  return arrival <= now
+    ? `${disaster.title}: tropical-storm-force winds at ${location.name}`
+    : `${disaster.title}: tropical-storm-force winds expected at ${location.name} by ${arrival.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+// Still news: not yet expired, or recent if it has no expiry
+export function isCurrent(disaster: Disaster, now: Date): boolean {
+  if (disaster.validUntil) return disaster.validUntil > now;
+  return now.getTime() - disaster.timestamp.getTime() <= MAX_ALERT_AGE_MS;
+}
+
+// Warnings are gated by emergencyWarnings, watches and advisories by watchesAdvisories
+function wantsAlert(preferences: UserPreferences, disaster: Disaster): boolean {
+  if (!matchesHazardTypes(disaster.disasterType, preferences.disasterTypes)) return false;
+
+  return disaster.alertType === AlertType.Warning
+    ? preferences.emergencyWarnings
+    : preferences.watchesAdvisories;
+}
+
+// The user's nearest saved location within their notification radius, if any.
+// Locations inside an alert's footprint are at distance 0.
+async function findAffectedLocation(
+  user: User,
+  notificationRadius: number,
+  disaster: Disaster
+): Promise<{ location: SavedLocation, distance: number } | undefined> {
+  let nearest: { location: SavedLocation, distance: number } | undefined;
+
+  for (const location of await storage.getSavedLocations(user.id)) {
+    const distance = distanceToDisaster(
+      disaster,
+      parseFloat(location.latitude),
+      parseFloat(location.longitude)
+    );
+    if (distance <= notificationRadius && (!nearest || distance < nearest.distance)) {
+      nearest = { location, distance };
+    }
+  }
+
+  return nearest;
+}
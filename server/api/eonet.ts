@@ -0,0 +1,92 @@
+import axios from 'axios';
+import { InsertDisaster } from '../../shared/schema';
+import { DisasterType, AlertType } from '../utils/alertUtils';
+import { geometryCentroid, toDisasterGeometry } from '../utils/geoUtils';
+
+// NASA Earth Observatory Natural Event Tracker: curated natural events with
+// links to their sources (InciWeb, IRWIN, etc.)
+const EONET_EVENTS_API = 'https://eonet.gsfc.nasa.gov/api/v3/events';
+const EVENT_DAYS = 30;
+
+// Reported fire size (acres)
+const ACRES_WARNING_THRESHOLD = 10000;
+const ACRES_WATCH_THRESHOLD = 1000;
+
+interface EONETGeometry {
+  date: string;
+  type: string;
+  coordinates: unknown;
+  magnitudeValue: number | null;
+  magnitudeUnit: string | null;
+}
+
+interface EONETEvent {
+  id: string;
+  title: string;
+  description: string | null;
+  link: string;
+  closed: string | null;
+  categories: { id: string, title: string }[];
+  sources: { id: string, url: string }[];
+  geometry: EONETGeometry[]; // one entry per observation, oldest first
+}
+
+interface EONETResponse {
+  events: EONETEvent[];
+}
+
+// Fetch open wildfire events from the last EVENT_DAYS
+export async function fetchWildfireEvents(): Promise<InsertDisaster[]> {
+  try {
+    const response = await axios.get<EONETResponse>(EONET_EVENTS_API, {
+      params: { category: 'wildfires', status: 'open', days: EVENT_DAYS },
+    });
+    return mapEONETResponseToDisasters(response.data);
+  } catch (error) {
+    console.error('Error fetching wildfire events from EONET:', error);
+    throw new Error('Failed to fetch EONET events');
+  }
+}
+
+// Map EONET events to our Disaster format, placed at their latest observation
+export function mapEONETResponseToDisasters(data: EONETResponse): InsertDisaster[] {
+  const disasters: InsertDisaster[] = [];
+
+  for (const event of data.events ?? []) {
+    const latest = event.geometry?.[event.geometry.length - 1];
+    const geometry = latest && toDisasterGeometry(latest);
+    const center = geometry && geometryCentroid(geometry);
+    if (!latest || !geometry || !center) continue;
+
+    const acres = latest.magnitudeUnit === 'acres' ? latest.magnitudeValue : null;
+    let alertType = AlertType.Advisory;
+    if (acres !== null && acres >= ACRES_WARNING_THRESHOLD) {
+      alertType = AlertType.Warning;
+    } else if (acres !== null && acres >= ACRES_WATCH_THRESHOLD) {
+      alertType = AlertType.Watch;
+    }
+
+    disasters.push({
+      externalId: `eonet-${event.id}`,
+      disasterType: DisasterType.Wildfire,
+      alertType,
+      title: event.title,
+      description: event.description || event.title,
+      location: `${center.latitude.toFixed(3)}, ${center.longitude.toFixed(3)}`,
+      latitude: center.latitude.toString(),
+      longitude: center.longitude.toString(),
+      source: 'NASA EONET',
+      timestamp: new Date(latest.date),
+      // Points are a position, not an area
+      geometry: geometry.type === 'Point' ? null : geometry,
+      data: {
+        acres,
+        firstReported: event.geometry[0]?.date,
+        sources: event.sources.map(source => ({ id: source.id, url: source.url })),
+        url: event.sources[0]?.url ?? event.link,
+      },
+    });
+  }
+
+  return disasters;
+}
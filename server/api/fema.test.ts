@@ -0,0 +1,64 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import path from 'path';
+import { loadZoneBundle } from './nwsZones';
+import { mapDeclarationsToDisasters } from './fema';
+
+type DeclarationArea = Parameters<typeof mapDeclarationsToDisasters>[0][number];
+
+function area(declaration: string, state: string, fipsCountyCode: string, designatedArea: string): DeclarationArea {
+  return {
+    id: `${declaration}-${fipsCountyCode}`,
+    femaDeclarationString: declaration,
+    disasterNumber: Number(declaration.split('-')[1]),
+    state,
+    declarationType: declaration.slice(0, 2),
+    declarationDate: '2024-07-09T00:00:00.000Z',
+    declarationTitle: 'HURRICANE BERYL',
+    incidentType: 'Hurricane',
+    incidentBeginDate: '2024-07-05T00:00:00.000Z',
+    incidentEndDate: null,
+    fipsStateCode: state === 'TX' ? '48' : '40',
+    fipsCountyCode,
+    designatedArea,
+    ihProgramDeclared: true,
+    iaProgramDeclared: false,
+    paProgramDeclared: true,
+    hmProgramDeclared: false,
+  };
+}
+
+beforeAll(async () => {
+  process.env.NWS_ZONES_OFFLINE = '1';
+  await loadZoneBundle(path.join(__dirname, '__fixtures__', 'nws-counties.json'));
+});
+
+afterAll(() => {
+  delete process.env.NWS_ZONES_OFFLINE;
+});
+
+describe('mapDeclarationsToDisasters', () => {
+  it('covers the declared counties', async () => {
+    const [declaration] = await mapDeclarationsToDisasters([area('DR-4798-TX', 'TX', '201', 'Harris (County)')]);
+
+    expect(declaration.geometry?.type).toBe('Polygon');
+    expect(declaration.location).toBe('Harris (County), TX');
+  });
+
+  it('covers every county of the state for statewide declarations', async () => {
+    const [declaration] = await mapDeclarationsToDisasters([area('EM-3611-TX', 'TX', '000', 'Statewide')]);
+
+    expect(declaration.geometry?.type).toBe('MultiPolygon');
+    expect(declaration.geometry?.coordinates).toHaveLength(2);
+  });
+
+  it('places tribal declarations without a county over their state', async () => {
+    const [declaration] = await mapDeclarationsToDisasters([area('DR-4800-OK', 'OK', '000', 'Citizen Potawatomi Nation (Indian Reservation)')]);
+
+    expect(declaration.geometry?.type).toBe('Polygon');
+    expect(parseFloat(declaration.latitude)).toBeCloseTo(35.5);
+  });
+
+  it('skips declarations in states without county shapes', async () => {
+    expect(await mapDeclarationsToDisasters([area('DR-4801-LA', 'LA', '000', 'Statewide')])).toEqual([]);
+  });
+});
@@ -0,0 +1,214 @@
+import axios from 'axios';
+import { DeclarationSummary, Disaster, InsertDisaster } from '../../shared/schema';
+import { DisasterType, AlertType } from '../utils/alertUtils';
+import { distanceToDisaster, geometryCentroid } from '../utils/geoUtils';
+import { getStateCounties, getZoneGeometry, loadStateCounties, loadZones, type ZoneReference } from './nwsZones';
+import { log } from '../vite';
+
+// OpenFEMA Disaster Declarations Summaries: one row per declared county (or
+// tribal area, or whole state) of each declaration
+const OPENFEMA_DECLARATIONS_API = 'https://www.fema.gov/api/open/v2/DisasterDeclarationsSummaries';
+const PAGE_SIZE = 1000;
+
+// How far back to read declarations: a year to fill the store, then enough
+// to pick up late changes such as a closed incident period
+const BACKFILL_DAYS = 365;
+const REFRESH_DAYS = 90;
+
+// OpenFEMA incident types with a matching disaster type; others (biological,
+// chemical, etc.) are not tracked
+const femaIncidentToDisasterType: Record<string, DisasterType> = {
+  'Earthquake': DisasterType.Earthquake,
+  'Flood': DisasterType.Flood,
+  'Dam/Levee Break': DisasterType.Flood,
+  'Tsunami': DisasterType.Tsunami,
+  'Fire': DisasterType.Wildfire,
+  'Hurricane': DisasterType.Hurricane,
+  'Tropical Storm': DisasterType.Hurricane,
+  'Typhoon': DisasterType.Hurricane,
+  'Coastal Storm': DisasterType.Storm,
+  'Severe Storm': DisasterType.Storm,
+  'Severe Storm(s)': DisasterType.Storm,
+  'Tornado': DisasterType.Tornado,
+  'Snowstorm': DisasterType.WinterStorm,
+  'Winter Storm': DisasterType.WinterStorm,
+  'Severe Ice Storm': DisasterType.WinterStorm,
+  'Volcanic Eruption': DisasterType.Volcano,
+  'Mud/Landslide': DisasterType.Landslide,
+  'Drought': DisasterType.Drought,
+};
+
+// DR: major disaster, EM: emergency, FM: fire management assistance
+const declarationTypeToAlertType: Record<string, AlertType> = {
+  DR: AlertType.Warning,
+  EM: AlertType.Watch,
+  FM: AlertType.Advisory,
+};
+
+const declarationTypeNames: Record<string, string> = {
+  DR: 'Major Disaster Declaration',
+  EM: 'Emergency Declaration',
+  FM: 'Fire Management Assistance Declaration',
+};
+
+// Assistance programs a declaration can make available
+const programFlags = {
+  IH: 'ihProgramDeclared', // Individuals and Households
+  IA: 'iaProgramDeclared', // Individual Assistance
+  PA: 'paProgramDeclared', // Public Assistance
+  HM: 'hmProgramDeclared', // Hazard Mitigation
+} as const;
+
+interface FEMADeclarationArea {
+  id: string;
+  femaDeclarationString: string; // e.g. DR-4798-TX
+  disasterNumber: number;
+  state: string; // two-letter abbreviation
+  declarationType: string;
+  declarationDate: string;
+  declarationTitle: string;
+  incidentType: string;
+  incidentBeginDate: string | null;
+  incidentEndDate: string | null; // null while the incident period is open
+  fipsStateCode: string;
+  fipsCountyCode: string; // 000 for statewide declarations
+  designatedArea: string; // e.g. Harris (County)
+  ihProgramDeclared: boolean;
+  iaProgramDeclared: boolean;
+  paProgramDeclared: boolean;
+  hmProgramDeclared: boolean;
+}
+
+interface FEMAResponse {
+  DisasterDeclarationsSummaries: FEMADeclarationArea[];
+}
+
+// Fetch recent declarations, one record per declaration covering all its counties
+export async function fetchDisasterDeclarations(firstRun: boolean): Promise<InsertDisaster[]> {
+  try {
+    const since = new Date(Date.now() - (firstRun ? BACKFILL_DAYS : REFRESH_DAYS) * 24 * 60 * 60 * 1000);
+    const areas: FEMADeclarationArea[] = [];
+
+    for (let skip = 0; ; skip += PAGE_SIZE) {
+      const response = await axios.get<FEMAResponse>(OPENFEMA_DECLARATIONS_API, {
+        params: {
+          $filter: `declarationDate ge '${since.toISOString()}'`,
+          $orderby: 'declarationDate desc',
+          $top: PAGE_SIZE,
+          $skip: skip,
+        },
+      });
+
+      const page = response.data.DisasterDeclarationsSummaries ?? [];
+      areas.push(...page);
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    return mapDeclarationsToDisasters(areas);
+  } catch (error) {
+    console.error('Error fetching disaster declarations from OpenFEMA:', error);
+    throw new Error('Failed to fetch disaster declarations');
+  }
+}
+
+// Group declared areas by declaration and map each to our Disaster format. The
+// footprint is the union of the declared counties' shapes, or of every county
+// in the state for statewide declarations.
+export async function mapDeclarationsToDisasters(areas: FEMADeclarationArea[]): Promise<InsertDisaster[]> {
+  const declarations = new Map<string, FEMADeclarationArea[]>();
+  for (const area of areas) {
+    if (!(area.incidentType in femaIncidentToDisasterType)) continue;
+    declarations.set(area.femaDeclarationString, [...(declarations.get(area.femaDeclarationString) ?? []), area]);
+  }
+
+  const declared = Array.from(declarations.values());
+  await loadStateCounties(areas.filter(isStatewide).map(area => area.state));
+  await loadZones(declared.flatMap(getCounties));
+
+  const disasters: InsertDisaster[] = [];
+  let unlocated = 0;
+
+  for (const declaredAreas of declared) {
+    const geometry = getZoneGeometry(getCounties(declaredAreas));
+    const centroid = geometry ? geometryCentroid(geometry) : null;
+
+    // Areas NWS has no county shapes for
+    if (!geometry || !centroid) {
+      unlocated++;
+      continue;
+    }
+
+    const [first] = declaredAreas;
+    const programs = (Object.keys(programFlags) as (keyof typeof programFlags)[])
+      .filter(program => declaredAreas.some(area => area[programFlags[program]]));
+
+    disasters.push({
+      externalId: `fema-${first.femaDeclarationString}`,
+      disasterType: femaIncidentToDisasterType[first.incidentType],
+      alertType: declarationTypeToAlertType[first.declarationType] ?? AlertType.Advisory,
+      title: `${declarationTypeNames[first.declarationType] ?? 'Declaration'}: ${first.declarationTitle}`,
+      description: `${first.femaDeclarationString}, ${first.incidentType.toLowerCase()} declared in ${declaredAreas.map(area => area.designatedArea).join(', ')}.`,
+      location: `${declaredAreas.length === 1 ? first.designatedArea : `${declaredAreas.length} areas`}, ${first.state}`,
+      latitude: centroid.latitude.toString(),
+      longitude: centroid.longitude.toString(),
+      source: 'FEMA',
+      timestamp: new Date(first.declarationDate),
+      validUntil: first.incidentEndDate ? new Date(first.incidentEndDate) : undefined,
+      geometry,
+      data: {
+        declaration: first.femaDeclarationString,
+        disasterNumber: first.disasterNumber,
+        declarationType: first.declarationType,
+        incidentType: first.incidentType,
+        incidentBeginDate: first.incidentBeginDate,
+        state: first.state,
+        counties: declaredAreas.map(area => ({
+          fips: `${area.fipsStateCode}${area.fipsCountyCode}`,
+          name: area.designatedArea,
+        })),
+        programs,
+        url: `https://www.fema.gov/disaster/${first.disasterNumber}`,
+      },
+    });
+  }
+
+  if (unlocated > 0) {
+    log(`skipped ${unlocated} declaration(s) without county shapes`, 'ingestion');
+  }
+  return disasters;
+}
+
+// NWS county codes are the state abbreviation, C and the county's FIPS code,
+// e.g. TXC201 for Harris County (48201)
+function getCounties(areas: FEMADeclarationArea[]): ZoneReference[] {
+  return areas.flatMap(area => isStatewide(area)
+    ? getStateCounties(area.state)
+    : [{ code: `${area.state}C${area.fipsCountyCode.padStart(3, '0')}` }]);
+}
+
+// Statewide declarations, and tribal ones that name no county, are placed
+// over the whole state
+function isStatewide(area: FEMADeclarationArea): boolean {
+  return !area.fipsCountyCode || area.fipsCountyCode === '000';
+}
+
+// A declaration is in effect until its incident period closes
+export function isDeclarationActive(declaration: Disaster, now: Date = new Date()): boolean {
+  return declaration.source === 'FEMA' && (!declaration.validUntil || declaration.validUntil > now);
+}
+
+// Active declarations whose declared area contains the given point
+export function findDeclarations(
+  declarations: Disaster[],
+  latitude: number,
+  longitude: number
+): DeclarationSummary[] {
+  return declarations
+    .filter(declaration => distanceToDisaster(declaration, latitude, longitude) === 0)
+    .map(declaration => ({
+      disasterId: declaration.id,
+      declaration: declaration.data?.declaration,
+      declarationType: declaration.data?.declarationType,
+      title: declaration.title,
+    }));
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Disaster, InsertDisaster } from '../../shared/schema';
+import { clusterHotspots, type Hotspot } from './firms';
+
+const now = new Date('2024-08-03T12:00:00Z');
+
+// A line of hotspots 0.01° (about 1.1 km) apart, running east from longitude
+function hotspots(latitude: number, longitude: number, count: number, detectedAt: string): Hotspot[] {
+  return Array.from({ length: count }, (_, index) => ({
+    latitude: latitude + (index % 2) * 0.005,
+    longitude: longitude + index * 0.01,
+    detectedAt: new Date(detectedAt),
+    frp: 20,
+    confidence: 'nominal',
+    instrument: 'VIIRS',
+  }));
+}
+
+let nextId = 1;
+function stored(fire: InsertDisaster): Disaster {
+  return {
+    id: nextId++,
+    ...fire,
+    validUntil: fire.validUntil ?? null,
+    geometry: fire.geometry ?? null,
+    data: fire.data ?? null,
+  };
+}
+
+describe('clusterHotspots', () => {
+  it('keeps a fire\'s externalId after the hotspots that named it leave the window', () => {
+    const [first] = clusterHotspots([
+      ...hotspots(40, -120, 3, '2024-08-01T10:00:00Z'),
+      ...hotspots(40, -119.97, 3, '2024-08-02T10:00:00Z'),
+    ], [], now);
+
+    // The next day only the newer hotspots, and some further east, remain
+    const [next] = clusterHotspots([
+      ...hotspots(40, -119.97, 3, '2024-08-02T10:00:00Z'),
+      ...hotspots(40, -119.94, 3, '2024-08-03T10:00:00Z'),
+    ], [stored(first)], now);
+
+    expect(next.externalId).toBe(first.externalId);
+    expect(next.data.firstDetected).toBe('2024-08-01T10:00:00.000Z');
+  });
+
+  it('names a merged fire after the one detected first', () => {
+    const [west] = clusterHotspots(hotspots(40, -120, 3, '2024-08-01T10:00:00Z'), [], now);
+    const [east] = clusterHotspots(hotspots(40, -119.95, 3, '2024-08-02T10:00:00Z'), [], now);
+
+    const merged = clusterHotspots(hotspots(40, -120, 8, '2024-08-03T10:00:00Z'), [stored(east), stored(west)], now);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].externalId).toBe(west.externalId);
+  });
+
+  it('gives the larger part of a split fire its externalId and the smaller a new one', () => {
+    const [fire] = clusterHotspots(hotspots(40, -120, 10, '2024-08-02T10:00:00Z'), [], now);
+
+    const parts = clusterHotspots([
+      ...hotspots(40, -120, 3, '2024-08-03T10:00:00Z'),
+      ...hotspots(40, -119.94, 4, '2024-08-03T10:00:00Z'),
+    ], [stored(fire)], now);
+
+    const larger = parts.find(part => part.data.hotspots === 4)!;
+    const smaller = parts.find(part => part.data.hotspots === 3)!;
+    expect(larger.externalId).toBe(fire.externalId);
+    expect(smaller.externalId).not.toBe(fire.externalId);
+  });
+
+  it('starts a new fire where an old one burned out', () => {
+    const [old] = clusterHotspots(hotspots(40, -120, 3, '2024-07-01T10:00:00Z'), [], now);
+    const burning = { ...old, timestamp: new Date('2024-08-02T10:00:00Z') };
+    const fresh = hotspots(40, -120, 3, '2024-08-03T10:00:00Z');
+
+    expect(clusterHotspots(fresh, [stored(burning)], now)[0].externalId).toBe(old.externalId);
+    expect(clusterHotspots(fresh, [stored(old)], now)[0].externalId).not.toBe(old.externalId);
+  });
+});
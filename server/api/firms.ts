@@ -0,0 +1,308 @@
+import axios from 'axios';
+import { Disaster, InsertDisaster, Position } from '../../shared/schema';
+import { DisasterType, AlertType } from '../utils/alertUtils';
+import { calculateDistance, convexHull, disasterFootprint, distanceToDisaster, geometryCentroid } from '../utils/geoUtils';
+
+// NASA Fire Information for Resource Management System: active-fire hotspots
+// detected by the VIIRS and MODIS satellite instruments. Requires a free
+// MAP_KEY from https://firms.modaps.eosdis.nasa.gov/api/map_key/
+const FIRMS_API_URL = 'https://firms.modaps.eosdis.nasa.gov/api/area/csv';
+const FIRMS_MAP_KEY = process.env.FIRMS_MAP_KEY;
+// "world", or west,south,east,north
+const FIRMS_AREA = process.env.FIRMS_AREA || 'world';
+const FIRMS_PRODUCTS = ['VIIRS_SNPP_NRT', 'VIIRS_NOAA20_NRT', 'MODIS_NRT'];
+const DAY_RANGE = 2;
+
+const KM_PER_DEGREE_LATITUDE = 111.2;
+// Hotspots closer than this are taken to be the same fire. VIIRS pixels are
+// 375 m and MODIS pixels 1 km, so this bridges a pixel or two of gap.
+const CLUSTER_DISTANCE_KM = 2;
+// Fewer hotspots than this are too often gas flares or small agricultural burns
+const MIN_CLUSTER_HOTSPOTS = 3;
+// A fire seen within this long keeps its record when new hotspots overlap it.
+// Longer than the feed's window, so a fire missed by one pass is still found.
+const TRACKING_WINDOW_MS = (DAY_RANGE + 1) * 24 * 60 * 60 * 1000;
+// Stored fires are indexed in cells this many degrees across
+const TRACKING_CELL_DEGREES = 1;
+
+// Total fire radiative power of a cluster (MW)
+const FRP_WARNING_THRESHOLD = 1000;
+const FRP_WATCH_THRESHOLD = 100;
+
+type Confidence = 'low' | 'nominal' | 'high';
+
+export interface Hotspot {
+  latitude: number;
+  longitude: number;
+  detectedAt: Date;
+  frp: number; // fire radiative power, MW
+  confidence: Confidence;
+  instrument: string;
+}
+
+export function hasFirmsMapKey(): boolean {
+  return Boolean(FIRMS_MAP_KEY);
+}
+
+// Fetch recent hotspots from every product and cluster them into fires.
+// tracked are the stored FIRMS fires that new clusters may continue.
+// Without a map key there is nothing to fetch; startIngestion says so once.
+export async function fetchActiveFires(tracked: Disaster[]): Promise<InsertDisaster[]> {
+  if (!FIRMS_MAP_KEY) return [];
+
+  try {
+    // A worldwide file holds too many rows to spread into push()
+    let hotspots: Hotspot[] = [];
+    for (const product of FIRMS_PRODUCTS) {
+      const response = await axios.get<string>(
+        `${FIRMS_API_URL}/${FIRMS_MAP_KEY}/${product}/${FIRMS_AREA}/${DAY_RANGE}`,
+        { responseType: 'text' }
+      );
+      hotspots = hotspots.concat(parseFIRMSCsv(response.data));
+    }
+    return clusterHotspots(hotspots, tracked);
+  } catch (error) {
+    console.error('Error fetching active fires from FIRMS:', error);
+    throw new Error('Failed to fetch active fire data');
+  }
+}
+
+// Parse a FIRMS CSV. VIIRS and MODIS files differ in some columns and in how
+// they rate confidence; low-confidence detections are dropped.
+export function parseFIRMSCsv(csv: string): Hotspot[] {
+  const [header, ...rows] = csv.trim().split(/\r?\n/);
+  if (!header) return [];
+
+  const columns = header.split(',');
+  const hotspots: Hotspot[] = [];
+
+  for (const row of rows) {
+    const values = row.split(',');
+    const field = (name: string) => values[columns.indexOf(name)];
+
+    const latitude = parseFloat(field('latitude'));
+    const longitude = parseFloat(field('longitude'));
+    const confidence = parseConfidence(field('confidence'));
+    if (isNaN(latitude) || isNaN(longitude) || confidence === 'low') continue;
+
+    // acq_time is HHMM in UTC
+    const time = (field('acq_time') ?? '').padStart(4, '0');
+    hotspots.push({
+      latitude,
+      longitude,
+      detectedAt: new Date(`${field('acq_date')}T${time.slice(0, 2)}:${time.slice(2)}:00Z`),
+      frp: parseFloat(field('frp')) || 0,
+      confidence,
+      instrument: field('instrument') ?? 'unknown',
+    });
+  }
+
+  return hotspots;
+}
+
+// VIIRS rates detections l/n/h, MODIS as a percentage
+function parseConfidence(value: string | undefined): Confidence {
+  switch (value) {
+    case 'h': return 'high';
+    case 'n': return 'nominal';
+    case 'l': return 'low';
+  }
+  const percent = parseFloat(value ?? '');
+  if (percent >= 80) return 'high';
+  if (percent >= 30) return 'nominal';
+  return 'low';
+}
+
+// Link hotspots within CLUSTER_DISTANCE_KM of each other into fires. The
+// perimeter is the convex hull of a fire's hotspots. A fire that overlaps a
+// tracked one keeps its externalId, since the hotspots that named it leave
+// the rolling window and fires merge and split as they burn.
+export function clusterHotspots(hotspots: Hotspot[], tracked: Disaster[] = [], now: Date = new Date()): InsertDisaster[] {
+  // Bucket hotspots into grid cells about CLUSTER_DISTANCE_KM across, so only
+  // neighboring cells need comparing
+  const cellOf = ({ latitude, longitude }: Hotspot): [number, number] => [
+    Math.floor(latitude * KM_PER_DEGREE_LATITUDE / CLUSTER_DISTANCE_KM),
+    Math.floor(longitude * KM_PER_DEGREE_LATITUDE * Math.cos(latitude * Math.PI / 180) / CLUSTER_DISTANCE_KM),
+  ];
+  const cells = new Map<string, number[]>();
+  hotspots.forEach((hotspot, index) => {
+    const key = cellOf(hotspot).join(':');
+    const cell = cells.get(key);
+    if (cell) cell.push(index);
+    else cells.set(key, [index]);
+  });
+
+  const parent = hotspots.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) index = parent[index] = parent[parent[index]];
+    return index;
+  };
+
+  hotspots.forEach((hotspot, index) => {
+    const [row, column] = cellOf(hotspot);
+    // Longitude cells are measured at each hotspot's own latitude, so look a
+    // little wider across than up and down
+    for (let dRow = -1; dRow <= 1; dRow++) {
+      for (let dColumn = -2; dColumn <= 2; dColumn++) {
+        for (const other of cells.get(`${row + dRow}:${column + dColumn}`) ?? []) {
+          if (other <= index) continue;
+          const neighbor = hotspots[other];
+          if (calculateDistance(hotspot.latitude, hotspot.longitude, neighbor.latitude, neighbor.longitude) <= CLUSTER_DISTANCE_KM) {
+            parent[find(other)] = find(index);
+          }
+        }
+      }
+    }
+  });
+
+  const clusters = new Map<number, Hotspot[]>();
+  hotspots.forEach((hotspot, index) => {
+    const root = find(index);
+    const cluster = clusters.get(root);
+    if (cluster) cluster.push(hotspot);
+    else clusters.set(root, [hotspot]);
+  });
+
+  // Largest first, so when a fire splits its biggest part keeps the record
+  const fires = Array.from(clusters.values())
+    .filter(cluster => cluster.length >= MIN_CLUSTER_HOTSPOTS)
+    .sort((a, b) => b.length - a.length);
+
+  const index = indexTrackedFires(tracked, now);
+  const claimed = new Set<string>();
+  return fires.map(cluster => {
+    const previous = findTrackedFire(cluster, index, claimed);
+    if (previous) claimed.add(previous.externalId);
+    return mapCluster(cluster, previous);
+  });
+}
+
+// Recent tracked fires by the grid cells their footprint, widened by
+// CLUSTER_DISTANCE_KM, touches
+function indexTrackedFires(tracked: Disaster[], now: Date): Map<string, Disaster[]> {
+  const index = new Map<string, Disaster[]>();
+  for (const fire of tracked) {
+    if (now.getTime() - fire.timestamp.getTime() > TRACKING_WINDOW_MS) continue;
+    const footprint = disasterFootprint(fire);
+    if (!footprint) continue;
+
+    const positions = footprint.type === 'Point' ? [footprint.coordinates]
+      : footprint.type === 'Polygon' ? footprint.coordinates.flat()
+      : footprint.coordinates.flat(2);
+    forEachCell(boundsOf(positions), CLUSTER_DISTANCE_KM, key => {
+      const cell = index.get(key);
+      if (cell) cell.push(fire);
+      else index.set(key, [fire]);
+    });
+  }
+  return index;
+}
+
+// The tracked fire a cluster continues: of those within CLUSTER_DISTANCE_KM of
+// one of its hotspots, the one first detected, so merged fires keep the oldest
+// record. Each tracked fire is continued by at most one cluster.
+function findTrackedFire(cluster: Hotspot[], index: Map<string, Disaster[]>, claimed: Set<string>): Disaster | undefined {
+  const candidates = new Set<Disaster>();
+  forEachCell(boundsOf(cluster.map(({ latitude, longitude }): Position => [longitude, latitude])), 0, key => {
+    for (const fire of index.get(key) ?? []) {
+      if (!claimed.has(fire.externalId)) candidates.add(fire);
+    }
+  });
+
+  let match: Disaster | undefined;
+  candidates.forEach(fire => {
+    const overlaps = cluster.some(hotspot =>
+      distanceToDisaster(fire, hotspot.latitude, hotspot.longitude) <= CLUSTER_DISTANCE_KM
+    );
+    if (overlaps && (!match || firstDetected(fire) < firstDetected(match))) match = fire;
+  });
+  return match;
+}
+
+function firstDetected(fire: Disaster): string {
+  return fire.data?.firstDetected ?? fire.timestamp.toISOString();
+}
+
+function boundsOf(positions: Position[]) {
+  return positions.reduce(
+    (bounds, [longitude, latitude]) => ({
+      south: Math.min(bounds.south, latitude),
+      north: Math.max(bounds.north, latitude),
+      west: Math.min(bounds.west, longitude),
+      east: Math.max(bounds.east, longitude),
+    }),
+    { south: Infinity, north: -Infinity, west: Infinity, east: -Infinity }
+  );
+}
+
+// Cells covering the bounds widened by marginKm
+function forEachCell(bounds: ReturnType<typeof boundsOf>, marginKm: number, callback: (key: string) => void) {
+  const latitudeMargin = marginKm / KM_PER_DEGREE_LATITUDE;
+  const maxLatitude = Math.min(Math.max(Math.abs(bounds.south), Math.abs(bounds.north)), 89);
+  const longitudeMargin = latitudeMargin / Math.cos(maxLatitude * Math.PI / 180);
+
+  const cell = (degrees: number) => Math.floor(degrees / TRACKING_CELL_DEGREES);
+  for (let row = cell(bounds.south - latitudeMargin); row <= cell(bounds.north + latitudeMargin); row++) {
+    for (let column = cell(bounds.west - longitudeMargin); column <= cell(bounds.east + longitudeMargin); column++) {
+      callback(`${row}:${column}`);
+    }
+  }
+}
+
+function mapCluster(cluster: Hotspot[], previous?: Disaster): InsertDisaster {
+  const byTime = [...cluster].sort((a, b) =>
+    a.detectedAt.getTime() - b.detectedAt.getTime() || a.latitude - b.latitude || a.longitude - b.longitude
+  );
+  const first = byTime[0];
+  const last = byTime[byTime.length - 1];
+
+  const positions = cluster.map(({ latitude, longitude }): Position => [longitude, latitude]);
+  const perimeter = convexHull(positions);
+  const center = (perimeter && geometryCentroid(perimeter)) ?? {
+    latitude: cluster.reduce((sum, hotspot) => sum + hotspot.latitude, 0) / cluster.length,
+    longitude: cluster.reduce((sum, hotspot) => sum + hotspot.longitude, 0) / cluster.length,
+  };
+
+  const frp = cluster.reduce((sum, hotspot) => sum + hotspot.frp, 0);
+  const maxFrp = cluster.reduce((max, hotspot) => Math.max(max, hotspot.frp), 0);
+  const confidence = {
+    high: cluster.filter(hotspot => hotspot.confidence === 'high').length,
+    nominal: cluster.filter(hotspot => hotspot.confidence === 'nominal').length,
+  };
+
+  let alertType = AlertType.Advisory;
+  if (frp >= FRP_WARNING_THRESHOLD) {
+    alertType = AlertType.Warning;
+  } else if (frp >= FRP_WATCH_THRESHOLD) {
+    alertType = AlertType.Watch;
+  }
+
+  // A continued fire was first detected when its record was
+  const firstDetectedAt = previous && firstDetected(previous) < first.detectedAt.toISOString()
+    ? firstDetected(previous)
+    : first.detectedAt.toISOString();
+
+  return {
+    // Named after the fire's first detection; continued fires keep their name
+    externalId: previous?.externalId ??
+      `firms-${first.detectedAt.toISOString().slice(0, 10)}-${first.latitude.toFixed(2)}-${first.longitude.toFixed(2)}`,
+    disasterType: DisasterType.Wildfire,
+    alertType,
+    title: `Active Fire: ${cluster.length} Hotspots`,
+    description: `Satellite-detected fire with ${cluster.length} hotspots and a total fire radiative power of ${Math.round(frp)} MW.`,
+    location: `${center.latitude.toFixed(3)}, ${center.longitude.toFixed(3)}`,
+    latitude: center.latitude.toString(),
+    longitude: center.longitude.toString(),
+    source: 'NASA FIRMS',
+    timestamp: last.detectedAt,
+    geometry: perimeter,
+    data: {
+      hotspots: cluster.length,
+      frp: Math.round(frp * 10) / 10,
+      maxFrp,
+      confidence,
+      instruments: Array.from(new Set(cluster.map(hotspot => hotspot.instrument))),
+      firstDetected: firstDetectedAt,
+    },
+  };
+}
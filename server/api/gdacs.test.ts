@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { mapGDACSResponseToDisasters } from './gdacs';
+import { AlertType, DisasterType } from '../utils/alertUtils';
+import fixture from './__fixtures__/gdacs-events.json';
+
+type GDACSResponse = Parameters<typeof mapGDACSResponseToDisasters>[0];
+
+const disasters = mapGDACSResponseToDisasters(fixture as GDACSResponse);
+const byId = (externalId: string) => disasters.find(disaster => disaster.externalId === externalId)!;
+
+describe('mapGDACSResponseToDisasters', () => {
+  it('maps one record per supported event and skips other event types', () => {
+    expect(disasters.map(disaster => disaster.externalId).sort()).toEqual([
+      'gdacs-EQ-1432456',
+      'gdacs-FL-1102345',
+      'gdacs-TC-1000981',
+    ]);
+  });
+
+  it('maps Green, Orange and Red alert levels to advisories, watches and warnings', () => {
+    expect(byId('gdacs-FL-1102345').alertType).toBe(AlertType.Advisory);
+    expect(byId('gdacs-EQ-1432456').alertType).toBe(AlertType.Watch);
+    expect(byId('gdacs-TC-1000981').alertType).toBe(AlertType.Warning);
+  });
+
+  it('takes details from the point and the footprint from its Poly_ areas', () => {
+    const earthquake = byId('gdacs-EQ-1432456');
+    expect(earthquake.disasterType).toBe(DisasterType.Earthquake);
+    expect(earthquake.latitude).toBe('23.8');
+    expect(earthquake.longitude).toBe('121.6');
+    expect(earthquake.data.magnitude).toBe(7.4);
+    expect(earthquake.geometry).toEqual({
+      type: 'Polygon',
+      coordinates: [[[121.2, 23.4], [122.0, 23.4], [122.0, 24.2], [121.2, 24.2], [121.2, 23.4]]],
+    });
+
+    // Listed before its point, with a second area after it
+    const cyclone = byId('gdacs-TC-1000981');
+    expect(cyclone.title).toBe('Tropical Cyclone BERYL-24');
+    expect(cyclone.latitude).toBe('19.2');
+    expect(cyclone.geometry?.type).toBe('MultiPolygon');
+    expect(cyclone.geometry?.coordinates).toHaveLength(2);
+  });
+
+  it('leaves events without areas unshaded', () => {
+    expect(byId('gdacs-FL-1102345').geometry).toBeNull();
+  });
+
+  it('reads dates without an offset as UTC', () => {
+    const earthquake = byId('gdacs-EQ-1432456');
+    expect(earthquake.timestamp.toISOString()).toBe('2024-04-02T23:58:11.000Z');
+    expect(earthquake.data.startedAt).toBe('2024-04-02T23:58:11.000Z');
+  });
+
+  it('keeps the offset of dates that have one', () => {
+    const flood = byId('gdacs-FL-1102345');
+    expect(flood.timestamp.toISOString()).toBe('2024-06-20T00:00:00.000Z');
+    expect(flood.data.startedAt).toBe('2024-06-17T18:00:00.000Z');
+  });
+});
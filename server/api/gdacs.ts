@@ -0,0 +1,166 @@
+import axios from 'axios';
+import { DisasterGeometry, InsertDisaster } from '../../shared/schema';
+import { DisasterType, AlertType } from '../utils/alertUtils';
+import { geometryCentroid, mergePolygons, toDisasterGeometry } from '../utils/geoUtils';
+
+// Global Disaster Alert and Coordination System. The MAP event list is a
+// GeoJSON FeatureCollection of current events: one point per event, plus
+// affected-area polygons for some of them.
+const GDACS_EVENTS_API = 'https://www.gdacs.org/gdacsapi/api/events/geteventlist/MAP';
+
+type GDACSEventType = 'EQ' | 'TC' | 'FL' | 'VO' | 'DR' | 'WF';
+
+const gdacsEventToDisasterType: Record<GDACSEventType, DisasterType> = {
+  EQ: DisasterType.Earthquake,
+  TC: DisasterType.Hurricane, // tropical cyclones
+  FL: DisasterType.Flood,
+  VO: DisasterType.Volcano,
+  DR: DisasterType.Drought,
+  WF: DisasterType.Wildfire,
+};
+
+const gdacsEventNames: Record<GDACSEventType, string> = {
+  EQ: 'Earthquake',
+  TC: 'Tropical Cyclone',
+  FL: 'Flood',
+  VO: 'Volcanic Eruption',
+  DR: 'Drought',
+  WF: 'Forest Fire',
+};
+
+// GDACS rates the expected humanitarian impact of each event
+const gdacsAlertLevelToAlertType: Record<string, AlertType> = {
+  Red: AlertType.Warning,
+  Orange: AlertType.Watch,
+  Green: AlertType.Advisory,
+};
+
+interface GDACSFeature {
+  type: 'Feature';
+  geometry: unknown;
+  properties: {
+    eventtype: GDACSEventType;
+    eventid: number;
+    episodeid: number;
+    Class?: string; // Point_Centroid for the event itself, Poly_* for affected areas
+    name: string;
+    eventname?: string;
+    description?: string;
+    alertlevel: string; // Green, Orange or Red
+    alertscore?: number;
+    country?: string;
+    iso3?: string;
+    fromdate: string; // UTC without an offset, e.g. 2024-05-01T10:00:00
+    todate: string;
+    iscurrent?: string;
+    severitydata?: {
+      severity: number;
+      severitytext: string;
+      severityunit: string;
+    };
+    url?: {
+      report?: string;
+      details?: string;
+      geometry?: string;
+    };
+  };
+}
+
+interface GDACSResponse {
+  type: 'FeatureCollection';
+  features: GDACSFeature[];
+}
+
+// Fetch current GDACS events of every supported type
+export async function fetchGDACSEvents(): Promise<InsertDisaster[]> {
+  try {
+    const response = await axios.get<GDACSResponse>(GDACS_EVENTS_API, {
+      params: { eventlist: Object.keys(gdacsEventToDisasterType).join(';') },
+    });
+    return mapGDACSResponseToDisasters(response.data);
+  } catch (error) {
+    console.error('Error fetching events from GDACS:', error);
+    throw new Error('Failed to fetch GDACS events');
+  }
+}
+
+// Map a GDACS FeatureCollection to our Disaster format, one record per event.
+// Affected-area polygons become the event's footprint.
+export function mapGDACSResponseToDisasters(data: GDACSResponse): InsertDisaster[] {
+  const events = new Map<string, { event?: GDACSFeature, areas: DisasterGeometry[] }>();
+
+  for (const feature of data.features ?? []) {
+    const { eventtype, eventid, Class } = feature.properties ?? {};
+    if (!(eventtype in gdacsEventToDisasterType)) continue;
+
+    const key = `${eventtype}-${eventid}`;
+    const entry = events.get(key) ?? { areas: [] };
+    const geometry = toDisasterGeometry(feature.geometry);
+
+    // Prefer the event's own point for its details; events published only
+    // as areas take them from their first polygon
+    if (isArea(feature)) {
+      if (geometry) entry.areas.push(geometry);
+      entry.event ??= feature;
+    } else if (!entry.event || isArea(entry.event) || Class === 'Point_Centroid') {
+      entry.event = feature;
+    }
+    events.set(key, entry);
+  }
+
+  const disasters: InsertDisaster[] = [];
+  events.forEach(({ event, areas }, key) => {
+    const disaster = event && mapEvent(key, event, mergePolygons(areas));
+    if (disaster) disasters.push(disaster);
+  });
+  return disasters;
+}
+
+// Null for events with neither a position nor an area
+function mapEvent(key: string, feature: GDACSFeature, area: DisasterGeometry | null): InsertDisaster | null {
+  const { properties } = feature;
+  const position = isArea(feature) ? area : toDisasterGeometry(feature.geometry);
+  const center = position && geometryCentroid(position);
+  if (!center) return null;
+
+  const severity = properties.severitydata;
+
+  return {
+    externalId: `gdacs-${key}`,
+    disasterType: gdacsEventToDisasterType[properties.eventtype],
+    alertType: gdacsAlertLevelToAlertType[properties.alertlevel] ?? AlertType.Advisory,
+    title: properties.eventname
+      ? `${gdacsEventNames[properties.eventtype]} ${properties.eventname}`
+      : properties.name,
+    description: properties.description || properties.name,
+    location: properties.country || properties.name,
+    latitude: center.latitude.toString(),
+    longitude: center.longitude.toString(),
+    source: 'GDACS',
+    // The latest episode, so ongoing events such as droughts stay in range
+    timestamp: parseGDACSDate(properties.todate),
+    geometry: area,
+    data: {
+      ...(properties.eventtype === 'EQ' && severity && { magnitude: severity.severity }),
+      gdacsAlertLevel: properties.alertlevel,
+      alertScore: properties.alertscore,
+      eventType: properties.eventtype,
+      eventId: properties.eventid,
+      episodeId: properties.episodeid,
+      severity: severity?.severitytext,
+      startedAt: parseGDACSDate(properties.fromdate).toISOString(),
+      country: properties.country,
+      iso3: properties.iso3,
+      url: properties.url?.report,
+    },
+  };
+}
+
+function isArea(feature: GDACSFeature): boolean {
+  return feature.properties.Class?.startsWith('Poly_') ?? false;
+}
+
+// GDACS dates are UTC but usually carry no offset
+function parseGDACSDate(value: string): Date {
+  return new Date(/(Z|[+-]\d{2}:?\d{2})$/.test(value) ? value : `${value}Z`);
+}
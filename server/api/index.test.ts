@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { Disaster } from '../../shared/schema';
+import { isInTimeRange } from './index';
+
+const now = new Date('2024-08-10T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function disaster(fields: Partial<Disaster>): Disaster {
+  return {
+    id: 1,
+    externalId: 'test-1',
+    disasterType: 'flood',
+    alertType: 'warning',
+    title: 'Flood',
+    description: 'Flooding',
+    location: 'Polk County',
+    latitude: '41.6',
+    longitude: '-93.6',
+    source: 'NOAA',
+    timestamp: now,
+    validUntil: null,
+    geometry: null,
+    data: null,
+    ...fields,
+  };
+}
+
+describe('isInTimeRange', () => {
+  it('shows alerts while they are in effect, however old', () => {
+    const alert = disaster({ timestamp: new Date(now.getTime() - 3 * DAY_MS), validUntil: new Date(now.getTime() + DAY_MS) });
+    expect(isInTimeRange(alert, '24h', now)).toBe(true);
+    expect(isInTimeRange({ ...alert, validUntil: new Date(now.getTime() - 1) }, '24h', now)).toBe(false);
+  });
+
+  it('shows other disasters by time range', () => {
+    expect(isInTimeRange(disaster({ timestamp: new Date(now.getTime() - DAY_MS / 2) }), '24h', now)).toBe(true);
+    expect(isInTimeRange(disaster({ timestamp: new Date(now.getTime() - 2 * DAY_MS) }), '24h', now)).toBe(false);
+  });
+
+  it('shows FEMA declarations while their incident period is open', () => {
+    const declared = new Date(now.getTime() - 30 * DAY_MS);
+    expect(isInTimeRange(disaster({ source: 'FEMA', timestamp: declared }), '24h', now)).toBe(true);
+    expect(isInTimeRange(disaster({ source: 'FEMA', timestamp: declared, validUntil: new Date(now.getTime() - DAY_MS) }), '24h', now)).toBe(false);
+  });
+});
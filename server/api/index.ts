@@ -1,70 +1,78 @@
-import { Disaster } from '../../shared/schema';
-import { fetchEarthquakeData, filterEarthquakesByLocation } from './usgs';
-import { fetchWeatherAlerts, filterAlertsByLocation } from './noaa';
-import { fetchCurrentWeather, fetchWeatherOneCall } from './openweathermap';
-import { DisasterType, AlertType, mapTimeRangeToValue } from '../utils/alertUtils';
-
-// Get all disasters from all sources
-export async function getAllDisasters(options: {
-  types?: DisasterType[],
-  alertTypes?: AlertType[],
+import { Disaster, Incident, SourceStatus } from '../../shared/schema';
+import { storage } from '../storage';
+import { DisasterType, AlertType, getAlertSeverity, getTimeRangeStart } from '../utils/alertUtils';
+import { findDeclarations, isDeclarationActive } from './fema';
+import { getHazardCategory, matchesHazardTypes } from '../../shared/hazards';
+import { disasterFootprint, distanceToDisaster, geometryIntersectsBounds, type Bounds } from '../utils/geoUtils';
+
+// Reports of the same hazard category closer than this, with overlapping times, are one incident
+const CORRELATION_RADIUS_KM = 50;
+// How long a report without an expiry, e.g. a weather observation, is taken to describe
+const REPORT_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+// Filters shared by the REST API and live WebSocket subscriptions
+export interface DisasterFilters {
+  types?: readonly string[],
+  alertTypes?: readonly string[],
   timeRange?: string,
   latitude?: number,
   longitude?: number,
-  radius?: number
-} = {}): Promise<Disaster[]> {
+  radius?: number,
+  bounds?: Bounds
+}
+
+// Get all disasters from storage (kept current by the ingestion scheduler)
+export async function getAllDisasters(options: DisasterFilters = {}): Promise<Disaster[]> {
   try {
-    // Convert time range to the format each API needs
-    const timeRange = mapTimeRangeToValue(options.timeRange || '24h');
-    
-    // Fetch data from all sources concurrently
-    const [earthquakes, weatherAlerts, weatherData] = await Promise.all([
-      fetchEarthquakeData(timeRange),
-      fetchWeatherAlerts(),
-      options.latitude && options.longitude
-        ? fetchWeatherOneCall(options.latitude, options.longitude)
-        : Promise.resolve([])
-    ]);
-    
-    // Combine all disasters
-    let allDisasters = [...earthquakes, ...weatherAlerts, ...weatherData];
-    
-    // Filter by disaster type if specified
-    if (options.types && options.types.length > 0) {
-      allDisasters = allDisasters.filter(disaster => 
-        options.types!.includes(disaster.disasterType as DisasterType)
-      );
-    }
-    
-    // Filter by alert type if specified
-    if (options.alertTypes && options.alertTypes.length > 0) {
-      allDisasters = allDisasters.filter(disaster => 
-        options.alertTypes!.includes(disaster.alertType as AlertType)
-      );
-    }
-    
-    // Filter by location if coordinates are provided
-    if (options.latitude && options.longitude && options.radius) {
-      allDisasters = allDisasters.filter(disaster => {
-        if (!disaster.latitude || !disaster.longitude) return false;
-        
-        const distance = calculateDistance(
-          options.latitude!,
-          options.longitude!,
-          parseFloat(disaster.latitude),
-          parseFloat(disaster.longitude)
-        );
-        return distance <= options.radius!;
-      });
-    }
-    
-    return allDisasters;
+    const now = new Date();
+    return (await storage.getDisasters()).filter(disaster => 
+      isInTimeRange(disaster, options.timeRange, now) && matchesDisasterFilters(disaster, options)
+    );
   } catch (error) {
     console.error('Error fetching disasters:', error);
     throw new Error('Failed to fetch disaster data');
   }
 }
 
+// Alerts with an expiry are shown while in effect, and FEMA declarations while
+// their incident period is open, which may not have an end date yet.
+// Everything else by time range.
+export function isInTimeRange(disaster: Disaster, timeRange: string = '24h', now: Date = new Date()): boolean {
+  if (disaster.source === 'FEMA') return isDeclarationActive(disaster, now);
+
+  return disaster.validUntil 
+    ? disaster.validUntil > now 
+    : disaster.timestamp >= getTimeRangeStart(timeRange, now);
+}
+
+// Type, alert type and area filters; time range is checked separately by isInTimeRange
+export function matchesDisasterFilters(disaster: Disaster, options: DisasterFilters): boolean {
+  // Filter by disaster type if specified; a category covers its subtypes
+  if (options.types && options.types.length > 0 && !matchesHazardTypes(disaster.disasterType, options.types)) {
+    return false;
+  }
+  
+  // Filter by alert type if specified
+  if (options.alertTypes && options.alertTypes.length > 0 && !options.alertTypes.includes(disaster.alertType)) {
+    return false;
+  }
+  
+  // Filter by location if coordinates are provided. Alerts with a footprint
+  // match when the point is inside it or within radius of its edge.
+  if (options.latitude !== undefined && options.longitude !== undefined && options.radius) {
+    const distance = distanceToDisaster(disaster, options.latitude, options.longitude);
+    if (isNaN(distance) || distance > options.radius) return false;
+  }
+  
+  // Filter by bounding box; west > east means the box crosses the antimeridian
+  if (options.bounds) {
+    const footprint = disasterFootprint(disaster);
+    if (!footprint || !geometryIntersectsBounds(footprint, options.bounds)) return false;
+  }
+  
+  return true;
+}
+
 // Get disasters by location
 export async function getDisastersByLocation(
   latitude: number,
@@ -76,51 +84,74 @@ export async function getDisastersByLocation(
     timeRange?: string
   } = {}
 ): Promise<Disaster[]> {
-  try {
-    // Convert time range to the format each API needs
-    const timeRange = mapTimeRangeToValue(options.timeRange || '24h');
-    
-    // Fetch data from all sources
-    const earthquakes = await fetchEarthquakeData(timeRange);
-    const weatherAlerts = await fetchWeatherAlerts();
-    const weatherData = await fetchWeatherOneCall(latitude, longitude);
-    
-    // Filter data by location
-    const filteredEarthquakes = filterEarthquakesByLocation(
-      earthquakes, 
-      latitude, 
-      longitude, 
-      radius
-    );
-    
-    const filteredWeatherAlerts = filterAlertsByLocation(
-      weatherAlerts,
-      latitude,
-      longitude,
-      radius
-    );
-    
-    // Combine all disasters
-    let allDisasters = [...filteredEarthquakes, ...filteredWeatherAlerts, ...weatherData];
-    
-    // Apply additional filters
-    if (options.types && options.types.length > 0) {
-      allDisasters = allDisasters.filter(disaster => 
-        options.types!.includes(disaster.disasterType as DisasterType)
-      );
-    }
-    
-    if (options.alertTypes && options.alertTypes.length > 0) {
-      allDisasters = allDisasters.filter(disaster => 
-        options.alertTypes!.includes(disaster.alertType as AlertType)
-      );
+  return getAllDisasters({ ...options, latitude, longitude, radius });
+}
+
+// Incidents among the matching disasters, each listing the active federal
+// declarations it falls inside (whether or not those match the filters)
+export async function getIncidents(options: DisasterFilters = {}): Promise<Incident[]> {
+  const now = new Date();
+  const [disasters, declarations] = await Promise.all([
+    getAllDisasters(options),
+    storage.getDisasters().then(all => all.filter(disaster => isDeclarationActive(disaster, now))),
+  ]);
+  return correlateIncidents(disasters, declarations);
+}
+
+// Group reports of the same event from different sources (or repeated by one)
+// into incidents. Reports join the incident of the first more severe report of
+// the same type whose time window overlaps theirs and whose footprint is
+// within CORRELATION_RADIUS_KM.
+export function correlateIncidents(disasters: Disaster[], declarations: Disaster[] = []): Incident[] {
+  const incidents: Incident[] = [];
+
+  for (const disaster of [...disasters].sort(comparePrimary)) {
+    const incident = incidents.find(({ primary }) => isSameEvent(primary, disaster));
+
+    if (incident) {
+      incident.reports.push(disaster);
+      if (!incident.sources.includes(disaster.source)) incident.sources.push(disaster.source);
+    } else {
+      incidents.push({ id: disaster.id, primary: disaster, reports: [disaster], sources: [disaster.source], declarations: [] });
     }
-    
-    return allDisasters;
-  } catch (error) {
-    console.error('Error fetching disasters by location:', error);
-    throw new Error('Failed to fetch disaster data for location');
   }
+
+  for (const incident of incidents) {
+    const { latitude, longitude } = incident.primary;
+    incident.declarations = findDeclarations(declarations, parseFloat(latitude), parseFloat(longitude))
+      .filter(({ disasterId }) => !incident.reports.some(report => report.id === disasterId));
+  }
+
+  return incidents.sort((a, b) => b.primary.timestamp.getTime() - a.primary.timestamp.getTime());
+}
+
+// Most severe first; among equals, prefer reports with an area, then the latest
+function comparePrimary(a: Disaster, b: Disaster): number {
+  return getAlertSeverity(b.alertType) - getAlertSeverity(a.alertType)
+    || Number(!!b.geometry) - Number(!!a.geometry)
+    || b.timestamp.getTime() - a.timestamp.getTime();
+}
+
+function isSameEvent(a: Disaster, b: Disaster): boolean {
+  // A tornado warning and a severe thunderstorm warning for one cell are one storm
+  if (getHazardCategory(a.disasterType) !== getHazardCategory(b.disasterType)) return false;
+
+  const [aStart, aEnd] = reportWindow(a);
+  const [bStart, bEnd] = reportWindow(b);
+  if (aStart > bEnd || bStart > aEnd) return false;
+
+  // Latitude/longitude is the centroid of a footprint, so two areas are close
+  // when either centroid is near the other's edge
+  const distance = Math.min(
+    distanceToDisaster(a, parseFloat(b.latitude), parseFloat(b.longitude)),
+    distanceToDisaster(b, parseFloat(a.latitude), parseFloat(a.longitude))
+  );
+  return distance <= CORRELATION_RADIUS_KM;
+}
+
+function reportWindow(disaster: Disaster): [number, number] {
+  const start = disaster.timestamp.getTime();
+  return [start, disaster.validUntil ? disaster.validUntil.getTime() : start + REPORT_WINDOW_MS];
 }
 
 // Get disaster statistics
@@ -145,25 +176,16 @@ export function getDisasterStats(disasters: Disaster[]): {
   };
 }
 
-// Calculate distance between two points using Haversine formula
-function calculateDistance(
-  lat1: number, 
-  lon1: number, 
-  lat2: number, 
-  lon2: number
-): number {
-  const R = 6371; // Earth radius in kilometers
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
-}
-
-// Get last updated timestamp
-export function getLastUpdatedTime(): Date {
-  return new Date();
+// Get when each source was last ingested; lastUpdated is the most recent success
+export async function getLastUpdatedTime(): Promise<{
+  lastUpdated: Date | null;
+  sources: SourceStatus[];
+}> {
+  const sources = await storage.getSourceStatuses();
+  
+  const lastUpdated = sources.reduce<Date | null>((latest, status) => 
+    status.lastSuccessAt && (!latest || status.lastSuccessAt > latest) ? status.lastSuccessAt : latest
+  , null);
+  
+  return { lastUpdated, sources };
 }
@@ -0,0 +1,249 @@
+import axios from 'axios';
+import { unzipSync } from 'fflate';
+import * as shapefile from 'shapefile';
+import { Disaster, DisasterGeometry, InsertDisaster } from '../../shared/schema';
+import { DisasterType, AlertType } from '../utils/alertUtils';
+import { geometryContains, mergePolygons, toDisasterGeometry } from '../utils/geoUtils';
+
+// NOAA National Hurricane Center: the storms it is currently advising on, with
+// links to each advisory's GIS products (zipped shapefiles)
+const NHC_CURRENT_STORMS_API = 'https://www.nhc.noaa.gov/CurrentStorms.json';
+
+// Advisories are issued every 6 hours, so a storm missing from a few polls in a
+// row has dissipated or been handed off
+const ADVISORY_VALID_MS = 9 * 60 * 60 * 1000;
+
+const KNOTS_TO_MPH = 1.15078;
+
+// Wind radii thresholds (kt); 34 kt is tropical-storm force
+export const TROPICAL_STORM_FORCE_KT = 34;
+
+const classificationNames: Record<string, string> = {
+  HU: 'Hurricane',
+  TY: 'Typhoon',
+  TS: 'Tropical Storm',
+  STS: 'Subtropical Storm',
+  TD: 'Tropical Depression',
+  STD: 'Subtropical Depression',
+  PTC: 'Potential Tropical Cyclone',
+  PC: 'Post-Tropical Cyclone',
+};
+
+const classificationToAlertType: Record<string, AlertType> = {
+  HU: AlertType.Warning,
+  TY: AlertType.Warning,
+  TS: AlertType.Watch,
+  STS: AlertType.Watch,
+};
+
+interface NHCProduct {
+  advNum: string;
+  issuance: string;
+  url?: string;
+  zipFile?: string;
+  kmzFile?: string;
+}
+
+interface NHCStorm {
+  id: string; // e.g. al052024
+  binNumber: string; // e.g. AT5
+  name: string;
+  classification: string;
+  intensity: string; // maximum sustained wind, kt
+  pressure: string; // mb
+  latitude: string; // e.g. 29.5N
+  longitude: string; // e.g. 83.9W
+  latitudeNumeric: number;
+  longitudeNumeric: number;
+  movementDir: number; // degrees
+  movementSpeed: number; // mph
+  lastUpdate: string;
+  publicAdvisory?: NHCProduct;
+  forecastTrack?: NHCProduct;
+  trackCone?: NHCProduct;
+  forecastWindRadiiGIS?: NHCProduct;
+}
+
+interface NHCCurrentStorms {
+  activeStorms: NHCStorm[];
+}
+
+export interface TrackPoint {
+  time: string;
+  latitude: number;
+  longitude: number;
+  maxWind: number; // kt
+  development: string; // e.g. Hurricane, Tropical Storm
+}
+
+export interface WindRadii {
+  time: string;
+  threshold: number; // kt
+  geometry: DisasterGeometry;
+}
+
+// Fetch every active storm with its latest forecast track, cone and wind radii
+export async function fetchTropicalCyclones(): Promise<InsertDisaster[]> {
+  try {
+    const response = await axios.get<NHCCurrentStorms>(NHC_CURRENT_STORMS_API);
+    const disasters: InsertDisaster[] = [];
+
+    for (const storm of response.data.activeStorms ?? []) {
+      disasters.push(await mapStorm(storm));
+    }
+    return disasters;
+  } catch (error) {
+    console.error('Error fetching tropical cyclones from NHC:', error);
+    throw new Error('Failed to fetch tropical cyclone data');
+  }
+}
+
+async function mapStorm(storm: NHCStorm): Promise<InsertDisaster> {
+  const issuedAt = new Date(storm.lastUpdate);
+
+  // The track and the cone share one package
+  const trackZip = storm.forecastTrack?.zipFile ?? storm.trackCone?.zipFile;
+  const trackFiles = trackZip ? await fetchShapefiles(trackZip) : {};
+  const track = (await readShapefile(trackFiles, /5day_pts\.shp$/i))
+    .map(feature => toTrackPoint(feature, issuedAt))
+    .filter((point): point is TrackPoint => point !== null)
+    .sort((a, b) => a.time.localeCompare(b.time));
+  const cone = mergePolygons((await readShapefile(trackFiles, /5day_pgn\.shp$/i))
+    .map(feature => toDisasterGeometry(feature.geometry)));
+
+  const radiiZip = storm.forecastWindRadiiGIS?.zipFile;
+  const windRadii = (await readShapefile(radiiZip ? await fetchShapefiles(radiiZip) : {}, /forecastradii\.shp$/i))
+    .map(toWindRadii)
+    .filter((radii): radii is WindRadii => radii !== null)
+    .sort((a, b) => a.time.localeCompare(b.time) || a.threshold - b.threshold);
+
+  const maxWind = parseInt(storm.intensity) || 0;
+  const windSpeed = Math.round(maxWind * KNOTS_TO_MPH / 5) * 5; // advisories round mph to 5
+  const category = getSaffirSimpsonCategory(maxWind);
+  const name = `${classificationNames[storm.classification] ?? 'Tropical Cyclone'} ${storm.name}`;
+  const advisoryNumber = storm.publicAdvisory?.advNum ?? storm.forecastTrack?.advNum;
+
+  return {
+    externalId: `nhc-${storm.id}`,
+    disasterType: DisasterType.Hurricane,
+    alertType: classificationToAlertType[storm.classification] ?? AlertType.Advisory,
+    title: category ? `${name} (Category ${category})` : name,
+    description: `${advisoryNumber ? `Advisory ${parseInt(advisoryNumber)}: ` : ''}maximum sustained winds ${windSpeed} mph, ` +
+      `minimum pressure ${storm.pressure} mb, moving ${toCompassPoint(storm.movementDir)} at ${storm.movementSpeed} mph.`,
+    location: `${storm.latitude}, ${storm.longitude}`,
+    latitude: storm.latitudeNumeric.toString(),
+    longitude: storm.longitudeNumeric.toString(),
+    source: 'NHC',
+    timestamp: issuedAt,
+    validUntil: new Date(issuedAt.getTime() + ADVISORY_VALID_MS),
+    // Where the center may go, and where tropical-storm-force winds may reach
+    geometry: mergePolygons([
+      cone,
+      ...windRadii.filter(radii => radii.threshold === TROPICAL_STORM_FORCE_KT).map(radii => radii.geometry),
+    ]),
+    data: {
+      stormId: storm.id,
+      stormName: storm.name,
+      classification: storm.classification,
+      advisoryNumber,
+      category,
+      windSpeed,
+      maxWind,
+      pressure: parseInt(storm.pressure) || undefined,
+      movement: { direction: storm.movementDir, speed: storm.movementSpeed },
+      track,
+      cone,
+      windRadii,
+      url: storm.publicAdvisory?.url,
+    },
+  };
+}
+
+// Download a zipped shapefile package and index its files by name
+async function fetchShapefiles(url: string): Promise<Record<string, Uint8Array>> {
+  const response = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer' });
+  return unzipSync(new Uint8Array(response.data));
+}
+
+// The features of the first shapefile in the package whose name matches
+async function readShapefile(files: Record<string, Uint8Array>, pattern: RegExp): Promise<GeoJSON.Feature[]> {
+  const shp = Object.keys(files).find(name => pattern.test(name));
+  if (!shp) return [];
+
+  const dbf = files[shp.replace(/\.shp$/i, '.dbf')];
+  const collection = await shapefile.read(files[shp], dbf);
+  return collection.features;
+}
+
+// Forecast points carry their valid time as DD/HHMM (UTC)
+function toTrackPoint(feature: GeoJSON.Feature, issuedAt: Date): TrackPoint | null {
+  const properties = feature.properties ?? {};
+  const time = parseValidTime(properties.VALIDTIME, issuedAt);
+  if (feature.geometry?.type !== 'Point' || !time) return null;
+
+  const [longitude, latitude] = feature.geometry.coordinates;
+  return {
+    time: time.toISOString(),
+    latitude,
+    longitude,
+    maxWind: Number(properties.MAXWIND) || 0,
+    development: properties.TCDVLP ?? '',
+  };
+}
+
+// Wind radii carry the synoptic time (YYYYMMDDHH) and forecast hour
+function toWindRadii(feature: GeoJSON.Feature): WindRadii | null {
+  const properties = feature.properties ?? {};
+  const geometry = toDisasterGeometry(feature.geometry);
+  const synoptic = /^(\d{4})(\d{2})(\d{2})(\d{2})$/.exec(String(properties.SYNOPTIME ?? ''));
+  if (!geometry || !synoptic) return null;
+
+  const [, year, month, day, hour] = synoptic;
+  const time = Date.UTC(+year, +month - 1, +day, +hour) + (Number(properties.TAU) || 0) * 60 * 60 * 1000;
+  return {
+    time: new Date(time).toISOString(),
+    threshold: Number(properties.RADII),
+    geometry,
+  };
+}
+
+// DD/HHMM is read as the first such time on or after the day before the
+// advisory, which handles forecasts that run into the next month
+function parseValidTime(value: unknown, issuedAt: Date): Date | null {
+  const match = /^(\d{2})\/(\d{2})(\d{2})$/.exec(String(value ?? ''));
+  if (!match) return null;
+
+  const [, day, hour, minute] = match;
+  const earliest = issuedAt.getTime() - 24 * 60 * 60 * 1000;
+  for (let months = 0; months <= 1; months++) {
+    const time = Date.UTC(issuedAt.getUTCFullYear(), issuedAt.getUTCMonth() + months, +day, +hour, +minute);
+    if (time >= earliest) return new Date(time);
+  }
+  return null;
+}
+
+// Saffir-Simpson hurricane wind scale, null below hurricane strength
+function getSaffirSimpsonCategory(maxWind: number): number | null {
+  if (maxWind >= 137) return 5;
+  if (maxWind >= 113) return 4;
+  if (maxWind >= 96) return 3;
+  if (maxWind >= 83) return 2;
+  if (maxWind >= 64) return 1;
+  return null;
+}
+
+function toCompassPoint(degrees: number): string {
+  const points = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+  return points[Math.round((((degrees % 360) + 360) % 360) / 22.5) % 16];
+}
+
+// When tropical-storm-force winds are first forecast to reach a point: the
+// earliest forecast time whose 34 kt wind radii contain it. Null if they are
+// not forecast to reach it.
+export function getTropicalStormWindArrival(disaster: Disaster, latitude: number, longitude: number): Date | null {
+  const windRadii: WindRadii[] = disaster.data?.windRadii ?? [];
+  const arrival = windRadii.find(radii =>
+    radii.threshold === TROPICAL_STORM_FORCE_KT && geometryContains(radii.geometry, latitude, longitude)
+  );
+  return arrival ? new Date(arrival.time) : null;
+}
@@ -1,6 +1,9 @@
 import axios from 'axios';
-import { Disaster } from '../../shared/schema';
+import { Disaster, DisasterGeometry, InsertDisaster } from '../../shared/schema';
 import { DisasterType, AlertType } from '../utils/alertUtils';
+import { distanceToDisaster, geometryCentroid, toDisasterGeometry } from '../utils/geoUtils';
+import { getZoneGeometry, loadZones, zoneCodeFromUrl, NWS_HEADERS, type ZoneReference } from './nwsZones';
+import { log } from '../vite';
 
 // NOAA Weather API endpoints
 const NOAA_ALERTS_API = 'https://api.weather.gov/alerts/active';
@@ -23,6 +26,11 @@ interface NOAAAlert {
     sender: string;
     senderName: string;
     areaDesc: string;
+    affectedZones: string[]; // zone URLs, e.g. https://api.weather.gov/zones/forecast/TXZ123
+    geocode: {
+      UGC?: string[]; // e.g. TXZ123 (forecast zone) or TXC201 (county)
+      SAME?: string[];
+    };
     parameters: {
       BLOCKCHANNEL?: string[];
       EAS_ORG?: string[];
@@ -31,12 +39,10 @@ interface NOAAAlert {
       expiredReferences?: string[];
     };
   };
-  geometry: {
-    type: string;
-    coordinates: number[][][] | [number, number][]; // Could be MultiPolygon or Point
-  };
+  geometry: DisasterGeometry | null; // null for alerts issued by zone or county
 }
 
+
 interface NOAAResponse {
   type: string;
   features: NOAAAlert[];
@@ -46,9 +52,9 @@ interface NOAAResponse {
 
 // Map disaster types from NOAA events
 const noaaEventToDisasterType: Record<string, DisasterType> = {
-  'Tornado': DisasterType.Storm,
-  'Tornado Warning': DisasterType.Storm,
-  'Tornado Watch': DisasterType.Storm,
+  'Tornado': DisasterType.Tornado,
+  'Tornado Warning': DisasterType.Tornado,
+  'Tornado Watch': DisasterType.Tornado,
   'Severe Thunderstorm': DisasterType.Storm,
   'Severe Thunderstorm Warning': DisasterType.Storm,
   'Severe Thunderstorm Watch': DisasterType.Storm,
@@ -58,21 +64,30 @@ const noaaEventToDisasterType: Record<string, DisasterType> = {
   'Flood': DisasterType.Flood,
   'Flood Warning': DisasterType.Flood,
   'Flood Watch': DisasterType.Flood,
-  'Hurricane': DisasterType.Storm,
-  'Hurricane Warning': DisasterType.Storm,
-  'Hurricane Watch': DisasterType.Storm,
-  'Tropical Storm': DisasterType.Storm,
-  'Tropical Storm Warning': DisasterType.Storm,
-  'Tropical Storm Watch': DisasterType.Storm,
-  'Winter Storm': DisasterType.Storm,
-  'Winter Storm Warning': DisasterType.Storm,
-  'Winter Storm Watch': DisasterType.Storm,
-  'Blizzard': DisasterType.Storm,
-  'Blizzard Warning': DisasterType.Storm,
-  'Blizzard Watch': DisasterType.Storm,
-  'Tsunami': DisasterType.Flood,
-  'Tsunami Warning': DisasterType.Flood,
-  'Tsunami Watch': DisasterType.Flood,
+  'Hurricane': DisasterType.Hurricane,
+  'Hurricane Warning': DisasterType.Hurricane,
+  'Hurricane Watch': DisasterType.Hurricane,
+  'Tropical Storm': DisasterType.Hurricane,
+  'Tropical Storm Warning': DisasterType.Hurricane,
+  'Tropical Storm Watch': DisasterType.Hurricane,
+  'Winter Storm': DisasterType.WinterStorm,
+  'Winter Storm Warning': DisasterType.WinterStorm,
+  'Winter Storm Watch': DisasterType.WinterStorm,
+  'Blizzard': DisasterType.WinterStorm,
+  'Blizzard Warning': DisasterType.WinterStorm,
+  'Blizzard Watch': DisasterType.WinterStorm,
+  'Ice Storm Warning': DisasterType.WinterStorm,
+  'Excessive Heat': DisasterType.Heat,
+  'Extreme Heat': DisasterType.Heat,
+  'Heat Advisory': DisasterType.Heat,
+  'Air Quality Alert': DisasterType.AirQuality,
+  'Dense Smoke Advisory': DisasterType.AirQuality,
+  'Tsunami': DisasterType.Tsunami,
+  'Tsunami Warning': DisasterType.Tsunami,
+  'Tsunami Watch': DisasterType.Tsunami,
+  'Ashfall Advisory': DisasterType.Volcano,
+  'Ashfall Warning': DisasterType.Volcano,
+  'Volcano Warning': DisasterType.Volcano,
   'Red Flag': DisasterType.Wildfire,
   'Fire Weather': DisasterType.Wildfire,
   'Fire Warning': DisasterType.Wildfire,
@@ -89,15 +104,15 @@ const noaaSeverityToAlertType: Record<string, AlertType> = {
 };
 
 // Fetch active weather alerts from NOAA
-export async function fetchWeatherAlerts(area?: string): Promise<Disaster[]> {
+export async function fetchWeatherAlerts(area?: string): Promise<InsertDisaster[]> {
   try {
     // If area is provided, filter by area
     const url = area 
       ? `${NOAA_ALERTS_API}?area=${area}`
       : NOAA_ALERTS_API;
     
-    const response = await axios.get<NOAAResponse>(url);
-    return mapNOAAResponseToDisasters(response.data);
+    const response = await axios.get<NOAAResponse>(url, { headers: NWS_HEADERS });
+    return await mapNOAAResponseToDisasters(response.data);
   } catch (error) {
     console.error('Error fetching weather alerts from NOAA:', error);
     throw new Error('Failed to fetch weather alerts');
@@ -105,119 +120,103 @@ export async function fetchWeatherAlerts(area?: string): Promise<Disaster[]> {
 }
 
 // Map NOAA response to our Disaster format
-function mapNOAAResponseToDisasters(data: NOAAResponse): Disaster[] {
-  return data.features
-    .filter(feature => {
-      // Only include relevant severe weather events
-      const event = feature.properties.event;
-      return Object.keys(noaaEventToDisasterType).some(key => 
-        event.toLowerCase().includes(key.toLowerCase())
-      );
-    })
-    .map(feature => {
-      // Determine disaster type based on event description
-      const event = feature.properties.event;
-      let disasterType = DisasterType.Storm; // Default
-      
-      for (const [key, value] of Object.entries(noaaEventToDisasterType)) {
-        if (event.toLowerCase().includes(key.toLowerCase())) {
-          disasterType = value;
-          break;
-        }
-      }
-      
-      // Determine alert type from severity
-      const alertType = noaaSeverityToAlertType[feature.properties.severity] || AlertType.Advisory;
-      
-      // Extract coordinates (center point of the affected area)
-      let latitude = 0;
-      let longitude = 0;
-      
-      if (feature.geometry) {
-        // Handle different geometry types
-        if (feature.geometry.type === 'Point' && Array.isArray(feature.geometry.coordinates)) {
-          // Point: [longitude, latitude]
-          [longitude, latitude] = feature.geometry.coordinates as [number, number];
-        } else if (feature.geometry.type === 'Polygon' && Array.isArray(feature.geometry.coordinates)) {
-          // Polygon: Calculate centroid from first ring of coordinates
-          const coordinates = feature.geometry.coordinates[0] as [number, number][];
-          const sumLat = coordinates.reduce((sum, coord) => sum + coord[1], 0);
-          const sumLng = coordinates.reduce((sum, coord) => sum + coord[0], 0);
-          latitude = sumLat / coordinates.length;
-          longitude = sumLng / coordinates.length;
-        } else if (feature.geometry.type === 'MultiPolygon' && Array.isArray(feature.geometry.coordinates)) {
-          // MultiPolygon: Use the first polygon's first ring for centroid
-          const coordinates = feature.geometry.coordinates[0][0] as [number, number][];
-          const sumLat = coordinates.reduce((sum, coord) => sum + coord[1], 0);
-          const sumLng = coordinates.reduce((sum, coord) => sum + coord[0], 0);
-          latitude = sumLat / coordinates.length;
-          longitude = sumLng / coordinates.length;
-        }
-      }
-      
-      // Parse the effective and expiry dates
-      const timestamp = new Date(feature.properties.effective);
-      const validUntil = feature.properties.expires ? new Date(feature.properties.expires) : undefined;
-      
-      // Create disaster object
-      return {
-        id: feature.id,
-        externalId: feature.id,
-        disasterType,
-        alertType,
-        title: feature.properties.headline,
-        description: feature.properties.description,
-        location: feature.properties.areaDesc,
-        latitude: latitude.toString(),
-        longitude: longitude.toString(),
-        source: 'NOAA',
-        timestamp,
-        validUntil,
-        data: {
-          event: feature.properties.event,
-          severity: feature.properties.severity,
-          urgency: feature.properties.urgency,
-          certainty: feature.properties.certainty
-        }
-      };
-    });
+async function mapNOAAResponseToDisasters(data: NOAAResponse): Promise<InsertDisaster[]> {
+  const features = data.features.filter(feature => {
+    // Only include relevant severe weather events
+    const event = feature.properties.event;
+    return Object.keys(noaaEventToDisasterType).some(key => 
+      event.toLowerCase().includes(key.toLowerCase())
+    );
+  });
+
+  // Alerts issued by zone or county carry no geometry of their own
+  const zoned = features.filter(feature => !toDisasterGeometry(feature.geometry));
+  await loadZones(zoned.flatMap(getZones));
+
+  const disasters: InsertDisaster[] = [];
+  let unlocated = 0;
+
+  for (const feature of features) {
+    // Keep the full footprint; latitude/longitude is its centroid
+    const geometry = toDisasterGeometry(feature.geometry) ?? getZoneGeometry(getZones(feature));
+    const centroid = geometry ? geometryCentroid(geometry) : null;
+
+    // Better to miss an alert until its zones resolve than to place it at 0,0
+    if (!geometry || !centroid) {
+      unlocated++;
+      continue;
+    }
+
+    disasters.push(mapFeature(feature, geometry, centroid));
+  }
+
+  if (unlocated > 0) {
+    log(`skipped ${unlocated} alert(s) whose zone shapes could not be resolved`, 'ingestion');
+  }
+  return disasters;
 }
 
-// Filter alerts by location (within radius)
+function mapFeature(
+  feature: NOAAAlert,
+  geometry: DisasterGeometry,
+  centroid: { latitude: number, longitude: number }
+): InsertDisaster {
+  // Determine disaster type based on event description
+  const event = feature.properties.event;
+  let disasterType = DisasterType.Storm; // Default
+  
+  for (const [key, value] of Object.entries(noaaEventToDisasterType)) {
+    if (event.toLowerCase().includes(key.toLowerCase())) {
+      disasterType = value;
+      break;
+    }
+  }
+  
+  // Determine alert type from severity
+  const alertType = noaaSeverityToAlertType[feature.properties.severity] || AlertType.Advisory;
+  
+  // Parse the effective and expiry dates
+  const timestamp = new Date(feature.properties.effective);
+  const validUntil = feature.properties.expires ? new Date(feature.properties.expires) : undefined;
+  
+  // Create disaster object
+  return {
+    externalId: feature.id,
+    disasterType,
+    alertType,
+    title: feature.properties.headline,
+    description: feature.properties.description,
+    location: feature.properties.areaDesc,
+    latitude: centroid.latitude.toString(),
+    longitude: centroid.longitude.toString(),
+    source: 'NOAA',
+    timestamp,
+    validUntil,
+    geometry,
+    data: {
+      event: feature.properties.event,
+      severity: feature.properties.severity,
+      urgency: feature.properties.urgency,
+      certainty: feature.properties.certainty,
+      zones: feature.properties.geocode?.UGC ?? []
+    }
+  };
+}
+
+// The zones an alert covers, from its affectedZones links or else its UGC codes
+function getZones(feature: NOAAAlert): ZoneReference[] {
+  if (feature.properties.affectedZones?.length) {
+    return feature.properties.affectedZones.map(url => ({ code: zoneCodeFromUrl(url), url }));
+  }
+  return (feature.properties.geocode?.UGC ?? []).map(code => ({ code }));
+}
+
+// Filter alerts by location: the point is inside the alert area or within radius of its edge
 export function filterAlertsByLocation(
   alerts: Disaster[],
   latitude: number,
   longitude: number,
   radiusKm: number = 100
 ): Disaster[] {
-  return alerts.filter(alert => {
-    // Skip alerts without coordinates
-    if (!alert.latitude || !alert.longitude) return false;
-    
-    const distance = calculateDistance(
-      latitude,
-      longitude,
-      parseFloat(alert.latitude),
-      parseFloat(alert.longitude)
-    );
-    return distance <= radiusKm;
-  });
-}
-
-// Calculate distance between two points using Haversine formula
-function calculateDistance(
-  lat1: number, 
-  lon1: number, 
-  lat2: number, 
-  lon2: number
-): number {
-  const R = 6371; // Earth radius in kilometers
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
+  return alerts.filter(alert => distanceToDisaster(alert, latitude, longitude) <= radiusKm);
 }
@@ -0,0 +1,210 @@
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import path from 'path';
+import * as shapefile from 'shapefile';
+import { DisasterGeometry } from '../../shared/schema';
+import { mergePolygons, toDisasterGeometry } from '../utils/geoUtils';
+import { log } from '../vite';
+
+// Shapes of the NWS forecast zones and counties that alerts name by UGC code,
+// e.g. TXZ123 (zone) or TXC201 (county). Shapes come from, in order:
+//  1. an offline bundle listed in NWS_ZONE_BUNDLE: comma-separated GeoJSON
+//     FeatureCollections or shapefiles, such as the NWS zone and county
+//     shapefiles from https://www.weather.gov/gis/
+//  2. the api.weather.gov zones endpoint, unless NWS_ZONES_OFFLINE is set
+const NWS_ZONES_API = 'https://api.weather.gov/zones';
+
+// Zone boundaries are revised a few times a year
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const FETCH_BATCH_SIZE = 5;
+
+const UGC_PATTERN = /^[A-Z]{2}[CZ]\d{3}$/;
+
+// api.weather.gov asks clients to identify themselves
+export const NWS_HEADERS = {
+  'User-Agent': process.env.NWS_USER_AGENT || 'DisasterTrack (alerts@disastertrack.local)',
+  'Accept': 'application/geo+json',
+};
+
+// A zone named by an alert; url is the alert's affectedZones link when it has one
+export interface ZoneReference {
+  code: string;
+  url?: string;
+}
+
+interface CachedZone {
+  geometry: DisasterGeometry | null; // null when the zone has no published shape
+  expiresAt: number;
+}
+
+const cache = new Map<string, CachedZone>();
+let bundleLoaded: Promise<void> | undefined;
+
+// County codes of each state that has been loaded, e.g. TX -> TXC001, TXC003, ...
+const stateCounties = new Map<string, { codes: string[], expiresAt: number }>();
+
+// The footprint covered by a set of zones from the cache, or null if none of
+// them are known. Call loadZones first.
+export function getZoneGeometry(zones: ZoneReference[]): DisasterGeometry | null {
+  return mergePolygons(zones.map(zone => cache.get(zone.code)?.geometry));
+}
+
+// Make sure every zone is cached, fetching the missing ones a few at a time.
+// Load all zones of a feed at once, so that zones shared by several alerts
+// are requested only once.
+export async function loadZones(zones: ZoneReference[]): Promise<void> {
+  bundleLoaded ??= loadBundles();
+  await bundleLoaded;
+
+  if (process.env.NWS_ZONES_OFFLINE) return;
+
+  const now = Date.now();
+  const missing = new Map<string, ZoneReference>();
+  for (const zone of zones) {
+    const cached = cache.get(zone.code);
+    if (!cached || cached.expiresAt <= now) missing.set(zone.code, zone);
+  }
+
+  const pending = Array.from(missing.values());
+  for (let i = 0; i < pending.length; i += FETCH_BATCH_SIZE) {
+    await Promise.all(pending.slice(i, i + FETCH_BATCH_SIZE).map(fetchZone));
+  }
+}
+
+// Every county of a state, for whatever covers a whole state. Call
+// loadStateCounties first.
+export function getStateCounties(state: string): ZoneReference[] {
+  return (stateCounties.get(state)?.codes ?? []).map(code => ({ code }));
+}
+
+// Make sure the counties of each state are known and their shapes cached. A
+// state's bundled county shapes are used if it has any, otherwise all its
+// counties are fetched in one request.
+export async function loadStateCounties(states: string[]): Promise<void> {
+  bundleLoaded ??= loadBundles();
+  await bundleLoaded;
+
+  const now = Date.now();
+  for (const state of Array.from(new Set(states))) {
+    const loaded = stateCounties.get(state);
+    if (loaded && loaded.expiresAt > now) continue;
+
+    const bundled = Array.from(cache.entries())
+      .filter(([code, zone]) => code.startsWith(`${state}C`) && zone.expiresAt === Infinity)
+      .map(([code]) => code);
+    if (bundled.length > 0) {
+      stateCounties.set(state, { codes: bundled, expiresAt: Infinity });
+    } else if (!process.env.NWS_ZONES_OFFLINE) {
+      await fetchStateCounties(state);
+    }
+  }
+}
+
+// Failures are not cached, so they are retried on the next poll
+async function fetchStateCounties(state: string): Promise<void> {
+  try {
+    const response = await axios.get(NWS_ZONES_API, {
+      headers: NWS_HEADERS,
+      params: { area: state, type: 'county', include_geometry: true },
+    });
+
+    const expiresAt = Date.now() + CACHE_TTL_MS;
+    const codes: string[] = [];
+    for (const feature of response.data?.features ?? []) {
+      const code = zoneCodeOf(feature.properties ?? {});
+      if (!code) continue;
+
+      cache.set(code, { geometry: toDisasterGeometry(feature.geometry), expiresAt });
+      codes.push(code);
+    }
+    stateCounties.set(state, { codes, expiresAt });
+  } catch (error) {
+    console.error(`Error fetching NWS counties of ${state}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+// Unknown zones are cached as having no shape; other failures are not cached,
+// so they are retried on the next poll
+async function fetchZone(zone: ZoneReference): Promise<void> {
+  const url = zone.url ?? zoneUrl(zone.code);
+  try {
+    const response = await axios.get(url, { headers: NWS_HEADERS });
+    cache.set(zone.code, {
+      geometry: toDisasterGeometry(response.data?.geometry),
+      expiresAt: Date.now() + CACHE_TTL_MS,
+    });
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      cache.set(zone.code, { geometry: null, expiresAt: Date.now() + CACHE_TTL_MS });
+    }
+    console.error(`Error fetching NWS zone ${zone.code}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+// The third character says whether the code names a county (C) or a forecast zone (Z)
+export function zoneUrl(code: string): string {
+  return `${NWS_ZONES_API}/${code.charAt(2) === 'C' ? 'county' : 'forecast'}/${code}`;
+}
+
+// The UGC code from an affectedZones URL, e.g. .../zones/forecast/TXZ123
+export function zoneCodeFromUrl(url: string): string {
+  return url.slice(url.lastIndexOf('/') + 1);
+}
+
+async function loadBundles(): Promise<void> {
+  const files = (process.env.NWS_ZONE_BUNDLE ?? '').split(',').map(file => file.trim()).filter(Boolean);
+
+  for (const file of files) {
+    try {
+      log(`loaded ${await loadZoneBundle(file)} zone shapes from ${file}`, 'nws-zones');
+    } catch (error) {
+      console.error(`Error loading NWS zone bundle ${file}:`, error);
+    }
+  }
+}
+
+// Read zone shapes from a GeoJSON FeatureCollection or a shapefile (with its
+// .dbf alongside). Bundled shapes never expire. Returns the number of zones loaded.
+export async function loadZoneBundle(file: string): Promise<number> {
+  const collection = path.extname(file).toLowerCase() === '.shp'
+    ? await shapefile.read(file)
+    : JSON.parse(await fs.readFile(file, 'utf8'));
+
+  // County shapefiles split some counties into several records, one per forecast office
+  const shapes = new Map<string, DisasterGeometry[]>();
+  for (const feature of collection.features ?? []) {
+    const code = zoneCodeOf(feature.properties ?? {});
+    const geometry = toDisasterGeometry(feature.geometry);
+    if (!code || !geometry) continue;
+
+    shapes.set(code, [...(shapes.get(code) ?? []), geometry]);
+  }
+
+  shapes.forEach((geometries, code) => {
+    cache.set(code, { geometry: mergePolygons(geometries), expiresAt: Infinity });
+  });
+  return shapes.size;
+}
+
+// Zone features identify themselves differently depending on where they came from
+function zoneCodeOf(properties: Record<string, any>): string | undefined {
+  // api.weather.gov zone features, or bundles that already carry the code
+  for (const key of ['id', 'UGC', 'ID']) {
+    if (typeof properties[key] === 'string' && UGC_PATTERN.test(properties[key])) {
+      return properties[key];
+    }
+  }
+
+  const state = properties.STATE;
+  if (typeof state !== 'string') return undefined;
+
+  // Forecast and fire zone shapefiles: STATE=TX, ZONE=123
+  if (properties.ZONE !== undefined) {
+    return `${state}Z${String(properties.ZONE).padStart(3, '0')}`;
+  }
+  // County shapefiles: STATE=TX, FIPS=48201
+  if (properties.FIPS !== undefined) {
+    return `${state}C${String(properties.FIPS).slice(-3)}`;
+  }
+  return undefined;
+}
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { Disaster } from '../../shared/schema';
+import { InsertDisaster } from '../../shared/schema';
 import { DisasterType, AlertType } from '../utils/alertUtils';
 
 // OpenWeatherMap API endpoints
@@ -172,7 +172,7 @@ interface OWMOneCall {
 }
 
 // Fetch current weather for a location
-export async function fetchCurrentWeather(latitude: number, longitude: number): Promise<Disaster[]> {
+export async function fetchCurrentWeather(latitude: number, longitude: number): Promise<InsertDisaster[]> {
   try {
     if (!OWM_API_KEY) {
       console.warn('OpenWeatherMap API key is missing');
@@ -197,7 +197,7 @@ export async function fetchCurrentWeather(latitude: number, longitude: number):
 }
 
 // Fetch one-call weather data with alerts
-export async function fetchWeatherOneCall(latitude: number, longitude: number): Promise<Disaster[]> {
+export async function fetchWeatherOneCall(latitude: number, longitude: number): Promise<InsertDisaster[]> {
   try {
     if (!OWM_API_KEY) {
       console.warn('OpenWeatherMap API key is missing');
@@ -226,7 +226,7 @@ export async function fetchWeatherOneCall(latitude: number, longitude: number):
 }
 
 // Process weather alerts from the one-call API
-function processWeatherAlerts(data: OWMOneCall): Disaster[] {
+function processWeatherAlerts(data: OWMOneCall): InsertDisaster[] {
   if (!data.alerts || data.alerts.length === 0) {
     return [];
   }
@@ -234,21 +234,32 @@ function processWeatherAlerts(data: OWMOneCall): Disaster[] {
   return data.alerts.map(alert => {
     // Map the alert event to our disaster types
     let disasterType = DisasterType.Storm; // Default to storm
+    const event = alert.event.toLowerCase();
     
-    if (alert.event.toLowerCase().includes('flood')) {
+    if (event.includes('flood')) {
       disasterType = DisasterType.Flood;
-    } else if (alert.event.toLowerCase().includes('fire')) {
+    } else if (event.includes('fire')) {
       disasterType = DisasterType.Wildfire;
+    } else if (event.includes('tornado')) {
+      disasterType = DisasterType.Tornado;
+    } else if (event.includes('hurricane') || event.includes('tropical') || event.includes('typhoon')) {
+      disasterType = DisasterType.Hurricane;
+    } else if (event.includes('winter') || event.includes('snow') || event.includes('blizzard') || event.includes('ice storm')) {
+      disasterType = DisasterType.WinterStorm;
+    } else if (event.includes('heat')) {
+      disasterType = DisasterType.Heat;
+    } else if (event.includes('air quality') || event.includes('smoke')) {
+      disasterType = DisasterType.AirQuality;
     }
     
     // Determine alert severity
     let alertType = AlertType.Advisory;
     
-    if (alert.event.toLowerCase().includes('warning')) {
+    if (event.includes('warning')) {
       alertType = AlertType.Warning;
-    } else if (alert.event.toLowerCase().includes('watch')) {
+    } else if (event.includes('watch')) {
       alertType = AlertType.Watch;
-    } else if (alert.event.toLowerCase().includes('advisory')) {
+    } else if (event.includes('advisory')) {
       alertType = AlertType.Advisory;
     }
     
@@ -256,7 +267,6 @@ function processWeatherAlerts(data: OWMOneCall): Disaster[] {
     const id = `owm-alert-${data.lat}-${data.lon}-${alert.start}`;
     
     return {
-      id,
       externalId: id,
       disasterType,
       alertType,
@@ -277,8 +287,8 @@ function processWeatherAlerts(data: OWMOneCall): Disaster[] {
 }
 
 // Analyze the current weather for potential severe conditions
-function analyzeCurrentWeather(data: OWMCurrentWeather): Disaster[] {
-  const disasters: Disaster[] = [];
+function analyzeCurrentWeather(data: OWMCurrentWeather): InsertDisaster[] {
+  const disasters: InsertDisaster[] = [];
   
   // Check for severe weather conditions by code
   const severeCondition = data.weather.find(w => SEVERE_WEATHER_CODES.includes(w.id));
@@ -308,7 +318,6 @@ function analyzeCurrentWeather(data: OWMCurrentWeather): Disaster[] {
     
     // Create disaster object
     disasters.push({
-      id,
       externalId: id,
       disasterType: getSevereWeatherType(severeCondition.id),
       alertType,
@@ -334,8 +343,8 @@ function analyzeCurrentWeather(data: OWMCurrentWeather): Disaster[] {
 }
 
 // Analyze one-call weather data for potential disasters
-function analyzeWeatherConditions(data: OWMOneCall): Disaster[] {
-  const disasters: Disaster[] = [];
+function analyzeWeatherConditions(data: OWMOneCall): InsertDisaster[] {
+  const disasters: InsertDisaster[] = [];
   
   // Check current conditions
   const severeCondition = data.current.weather.find(w => SEVERE_WEATHER_CODES.includes(w.id));
@@ -367,7 +376,6 @@ function analyzeWeatherConditions(data: OWMOneCall): Disaster[] {
     }
     
     disasters.push({
-      id,
       externalId: id,
       disasterType: getSevereWeatherType(severeCondition.id),
       alertType,
@@ -406,11 +414,11 @@ function getSevereWeatherType(weatherId: number): DisasterType {
   // Snow - severe winter storm
   else if ((weatherId >= 600 && weatherId < 700) && 
           [602, 622].includes(weatherId)) {
-    return DisasterType.Storm;
+    return DisasterType.WinterStorm;
   }
   // Tornado
   else if (weatherId === 781) {
-    return DisasterType.Storm;
+    return DisasterType.Tornado;
   }
   // Default
   else {
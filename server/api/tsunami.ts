@@ -0,0 +1,291 @@
+import axios from 'axios';
+import { XMLParser } from 'fast-xml-parser';
+import { Disaster, DisasterGeometry, InsertDisaster, Position } from '../../shared/schema';
+import { DisasterType, AlertType } from '../utils/alertUtils';
+import { calculateDistance, geometryCentroid, mergePolygons } from '../utils/geoUtils';
+import { getZoneGeometry, loadZones, type ZoneReference } from './nwsZones';
+import { log } from '../vite';
+
+// The two US tsunami warning centers publish an Atom feed of their recent
+// messages, each linking to the message in CAP format
+const TSUNAMI_FEEDS = [
+  { center: 'NTWC', url: 'https://www.tsunami.gov/events/xml/PAAQAtom.xml' }, // National, Palmer AK
+  { center: 'PTWC', url: 'https://www.tsunami.gov/events/xml/PHEBAtom.xml' }, // Pacific, Honolulu
+];
+
+// Older messages in the feeds are history
+const MESSAGE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Messages without an expiry stay current this long after they are sent
+const DEFAULT_VALID_MS = 6 * 60 * 60 * 1000;
+
+// Tsunamis cross deep ocean at about sqrt(g * 4000 m) = 200 m/s. Arrival
+// estimates use that speed in a straight line from the source; waves slow
+// down over shallow water, so real arrivals are later.
+const DEEP_OCEAN_WAVE_SPEED_KMH = 713;
+
+// A tsunami message is matched to an earthquake within this distance and
+// time of the origin it reports
+const EARTHQUAKE_MATCH_KM = 100;
+const EARTHQUAKE_MATCH_MS = 5 * 60 * 1000;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  removeNSPrefix: true,
+  isArray: name => ['entry', 'link', 'info', 'area', 'polygon', 'geocode', 'parameter'].includes(name),
+});
+
+interface AtomEntry {
+  id: string;
+  title: string;
+  updated: string;
+  link?: { rel?: string, type?: string, title?: string, href: string }[];
+}
+
+interface CAPValue {
+  valueName: string;
+  value: string | number;
+}
+
+interface CAPArea {
+  areaDesc: string;
+  polygon?: string[]; // "lat,lon lat,lon ..."
+  geocode?: CAPValue[];
+}
+
+interface CAPInfo {
+  event: string;
+  headline?: string;
+  description?: string;
+  instruction?: string;
+  expires?: string;
+  web?: string;
+  parameter?: CAPValue[];
+  area?: CAPArea[];
+}
+
+interface CAPAlert {
+  identifier: string;
+  sent: string;
+  msgType: string; // Alert, Update or Cancel
+  info?: CAPInfo[];
+}
+
+export interface TsunamiOrigin {
+  time: string;
+  latitude: number;
+  longitude: number;
+  magnitude: number | null;
+  location: string | null;
+}
+
+export interface ThreatZone {
+  name: string;
+  estimatedArrival: string | null;
+  geometry: DisasterGeometry | null;
+}
+
+// Messages are never revised, only superseded, so each is fetched once
+const messageCache = new Map<string, CAPAlert | null>();
+
+// Fetch the current message of each recent event from both warning centers.
+// earthquakes are the stored USGS events that messages are linked to.
+export async function fetchTsunamiMessages(earthquakes: Disaster[]): Promise<InsertDisaster[]> {
+  try {
+    const messages: { center: string, alert: CAPAlert }[] = [];
+    const links = new Set<string>();
+
+    for (const feed of TSUNAMI_FEEDS) {
+      const response = await axios.get<string>(feed.url, { responseType: 'text' });
+      const entries: AtomEntry[] = parser.parse(response.data).feed?.entry ?? [];
+
+      for (const entry of entries) {
+        const link = entry.link?.find(link => /cap/i.test(`${link.type} ${link.title} ${link.href}`));
+        if (!link || Date.now() - new Date(entry.updated).getTime() > MESSAGE_MAX_AGE_MS) continue;
+
+        links.add(link.href);
+        const alert = await fetchMessage(link.href);
+        if (alert) messages.push({ center: feed.center, alert });
+      }
+    }
+
+    // Forget messages that have left the feeds
+    Array.from(messageCache.keys()).forEach(href => {
+      if (!links.has(href)) messageCache.delete(href);
+    });
+
+    return await mapMessagesToDisasters(messages, earthquakes);
+  } catch (error) {
+    console.error('Error fetching tsunami messages:', error);
+    throw new Error('Failed to fetch tsunami messages');
+  }
+}
+
+// A message without an alert is cached as null, so it is not refetched;
+// failed requests are retried on the next poll
+async function fetchMessage(href: string): Promise<CAPAlert | null> {
+  if (messageCache.has(href)) return messageCache.get(href) ?? null;
+
+  try {
+    const response = await axios.get<string>(href, { responseType: 'text' });
+    const alert: CAPAlert | null = parser.parse(response.data).alert ?? null;
+    messageCache.set(href, alert);
+    return alert;
+  } catch (error) {
+    console.error(`Error fetching tsunami message ${href}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// Map CAP messages to our Disaster format, one record per event and center.
+// Later messages about an event replace earlier ones.
+export async function mapMessagesToDisasters(
+  messages: { center: string, alert: CAPAlert }[],
+  earthquakes: Disaster[]
+): Promise<InsertDisaster[]> {
+  const areas = messages.flatMap(({ alert }) => alert.info?.[0]?.area ?? []);
+  await loadZones(areas.flatMap(getZones));
+
+  const latest = new Map<string, InsertDisaster>();
+  let unlocated = 0;
+
+  const bySent = [...messages].sort((a, b) => a.alert.sent.localeCompare(b.alert.sent));
+  for (const { center, alert } of bySent) {
+    const disaster = mapMessage(center, alert, earthquakes);
+    if (disaster) latest.set(disaster.externalId, disaster);
+    else unlocated++;
+  }
+
+  if (unlocated > 0) {
+    log(`skipped ${unlocated} tsunami message(s) without an origin`, 'ingestion');
+  }
+  return Array.from(latest.values());
+}
+
+// Null for messages that give no origin to place them by
+function mapMessage(center: string, alert: CAPAlert, earthquakes: Disaster[]): InsertDisaster | null {
+  const info = alert.info?.[0];
+  const origin = info && getOrigin(info);
+  if (!info || !origin) return null;
+
+  const zones: ThreatZone[] = (info.area ?? []).map(area => {
+    const geometry = getAreaGeometry(area);
+    const centroid = geometry && geometryCentroid(geometry);
+    return {
+      name: area.areaDesc,
+      estimatedArrival: centroid ? estimateArrival(origin, centroid.latitude, centroid.longitude) : null,
+      geometry,
+    };
+  });
+
+  const sent = new Date(alert.sent);
+  const cancelled = alert.msgType === 'Cancel' || /cancel/i.test(info.event);
+  const earthquake = findEarthquake(earthquakes, origin);
+
+  return {
+    externalId: `tsunami-${center}-${origin.time}`,
+    disasterType: DisasterType.Tsunami,
+    alertType: getAlertType(info.event),
+    title: info.headline || info.event,
+    description: info.description || info.event,
+    location: origin.location ?? `${origin.latitude.toFixed(2)}, ${origin.longitude.toFixed(2)}`,
+    // Placed at the source, so it can be found next to the earthquake on the map
+    latitude: origin.latitude.toString(),
+    longitude: origin.longitude.toString(),
+    source: center,
+    timestamp: sent,
+    validUntil: cancelled ? sent : new Date(info.expires ?? sent.getTime() + DEFAULT_VALID_MS),
+    geometry: mergePolygons(zones.map(zone => zone.geometry)),
+    data: {
+      event: info.event,
+      messageId: alert.identifier,
+      origin,
+      // Sorted by estimated arrival, soonest first, then zones without one
+      threatZones: zones.sort((a, b) =>
+        Number(a.estimatedArrival === null) - Number(b.estimatedArrival === null) ||
+        (a.estimatedArrival ?? '').localeCompare(b.estimatedArrival ?? '')
+      ),
+      earthquake: earthquake ? {
+        id: earthquake.id,
+        externalId: earthquake.externalId,
+        title: earthquake.title,
+      } : null,
+      instruction: info.instruction,
+      url: info.web,
+    },
+  };
+}
+
+// Warnings, watches and advisories say so in the event name; threat messages
+// and information statements fall back to the watch and advisory levels
+function getAlertType(event: string): AlertType {
+  if (/warning/i.test(event)) return AlertType.Warning;
+  if (/watch|threat/i.test(event)) return AlertType.Watch;
+  return AlertType.Advisory;
+}
+
+function getParameter(info: CAPInfo, name: string): string | undefined {
+  const parameter = info.parameter?.find(p => p.valueName === name);
+  return parameter === undefined ? undefined : String(parameter.value);
+}
+
+// The earthquake origin reported in the message. EventLatLon is "lat,lon depth".
+function getOrigin(info: CAPInfo): TsunamiOrigin | null {
+  const time = getParameter(info, 'EventOriginTime');
+  const [latitude, longitude] = (getParameter(info, 'EventLatLon') ?? '').split(/[\s,]+/).map(parseFloat);
+  if (!time || isNaN(new Date(time).getTime()) || isNaN(latitude) || isNaN(longitude)) return null;
+
+  const magnitude = parseFloat(getParameter(info, 'EventPreliminaryMagnitude') ?? '');
+  return {
+    time: new Date(time).toISOString(),
+    latitude,
+    longitude,
+    magnitude: isNaN(magnitude) ? null : magnitude,
+    location: getParameter(info, 'EventLocationName') ?? null,
+  };
+}
+
+// CAP polygons list lat,lon pairs; areas without one are drawn from their zones
+function getAreaGeometry(area: CAPArea): DisasterGeometry | null {
+  const polygons = (area.polygon ?? []).map((polygon): DisasterGeometry => ({
+    type: 'Polygon',
+    coordinates: [polygon.trim().split(/\s+/).map((pair): Position => {
+      const [latitude, longitude] = pair.split(',').map(parseFloat);
+      return [longitude, latitude];
+    })],
+  }));
+  return mergePolygons(polygons) ?? getZoneGeometry(getZones(area));
+}
+
+function getZones(area: CAPArea): ZoneReference[] {
+  return (area.geocode ?? [])
+    .filter(geocode => geocode.valueName === 'UGC')
+    .map(geocode => ({ code: String(geocode.value) }));
+}
+
+function estimateArrival(origin: TsunamiOrigin, latitude: number, longitude: number): string {
+  const hours = calculateDistance(origin.latitude, origin.longitude, latitude, longitude) / DEEP_OCEAN_WAVE_SPEED_KMH;
+  return new Date(new Date(origin.time).getTime() + hours * 60 * 60 * 1000).toISOString();
+}
+
+// The USGS earthquake nearest the reported origin, if one is close in space and time
+function findEarthquake(earthquakes: Disaster[], origin: TsunamiOrigin): Disaster | undefined {
+  const originTime = new Date(origin.time).getTime();
+  let nearest: { earthquake: Disaster, distance: number } | undefined;
+
+  for (const earthquake of earthquakes) {
+    if (Math.abs(earthquake.timestamp.getTime() - originTime) > EARTHQUAKE_MATCH_MS) continue;
+    const distance = calculateDistance(
+      origin.latitude,
+      origin.longitude,
+      parseFloat(earthquake.latitude),
+      parseFloat(earthquake.longitude)
+    );
+    if (distance <= EARTHQUAKE_MATCH_KM && (!nearest || distance < nearest.distance)) {
+      nearest = { earthquake, distance };
+    }
+  }
+
+  return nearest?.earthquake;
+}
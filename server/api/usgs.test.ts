@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import axios from 'axios';
+import { Disaster } from '../../shared/schema';
+import { AlertType } from '../utils/alertUtils';
+import { fetchEarthquakeData } from './usgs';
+
+vi.mock('axios');
+const get = vi.mocked(axios.get);
+
+// A M5.0 quake, a Warning by magnitude, that PAGER rates yellow (a Watch)
+function summary(id: string, updated: number) {
+  return {
+    features: [{
+      id,
+      properties: {
+        mag: 5.0, place: 'Offshore', time: 1717200000000, updated, url: `https://earthquake.usgs.gov/${id}`,
+        detail: `https://detail/${id}`, title: 'M 5.0 - Offshore', alert: 'yellow', felt: null, cdi: null, mmi: 6.1,
+        tsunami: 0, type: 'earthquake',
+      },
+      geometry: { type: 'Point', coordinates: [140, 35, 10] },
+    }],
+  };
+}
+
+const detail = {
+  properties: {
+    products: {
+      losspager: [{ properties: { alertlevel: 'yellow' }, contents: {} }],
+      shakemap: [{ properties: { maxmmi: '6.1' }, contents: {} }],
+    },
+  },
+};
+
+// Serves the summary feed, and the detail unless it is down
+function serve(feed: object, detailDown = false) {
+  get.mockImplementation(async (url: string) => {
+    if (url.startsWith('https://detail/')) {
+      if (detailDown) throw new Error('503');
+      return { data: detail };
+    }
+    return { data: feed };
+  });
+}
+
+describe('fetchEarthquakeData', () => {
+  beforeEach(() => {
+    get.mockReset();
+  });
+
+  it('rates enriched quakes by PAGER alert level', async () => {
+    serve(summary('us1', 1));
+    const [quake] = await fetchEarthquakeData();
+
+    expect(quake.alertType).toBe(AlertType.Watch);
+    expect(quake.data.pager.alertLevel).toBe('yellow');
+    expect(quake.data.shakemap.maxMmi).toBe(6.1);
+  });
+
+  it('keeps the previous enrichment when refetching it fails', async () => {
+    serve(summary('us2', 1));
+    const [before] = await fetchEarthquakeData();
+
+    serve(summary('us2', 2), true);
+    const [after] = await fetchEarthquakeData();
+
+    expect(after.alertType).toBe(AlertType.Watch);
+    expect(after.data.pager).toEqual(before.data.pager);
+    expect(after.data.shakemap).toEqual(before.data.shakemap);
+  });
+
+  it("falls back to the stored quake's enrichment when none is cached", async () => {
+    serve(summary('us3', 1));
+    const [enriched] = await fetchEarthquakeData();
+    const stored = { ...enriched, id: 1, validUntil: null, geometry: null } as Disaster;
+
+    // As after a restart: once out of the feed the quake is no longer cached,
+    // and now its detail is down
+    serve(summary('us4', 1));
+    await fetchEarthquakeData();
+    serve(summary('us3', 2), true);
+    const [quake] = await fetchEarthquakeData('1day', [stored]);
+
+    expect(quake.alertType).toBe(AlertType.Watch);
+    expect(quake.data.pager).toEqual(enriched.data.pager);
+  });
+});
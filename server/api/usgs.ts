@@ -1,6 +1,6 @@
 import axios from 'axios';
 import { DisasterType, AlertType } from '../utils/alertUtils';
-import { Disaster } from '../../shared/schema';
+import { Disaster, InsertDisaster, Position } from '../../shared/schema';
 
 // USGS Earthquake API
 const USGS_API_URL = 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary';
@@ -8,6 +8,22 @@ const MAGNITUDE_WARNING_THRESHOLD = 5.0;
 const MAGNITUDE_WATCH_THRESHOLD = 4.0;
 const MAGNITUDE_ADVISORY_THRESHOLD = 2.5;
 
+// Quakes at or above this magnitude, or with a PAGER alert, get their detail
+// fetched for PAGER impact estimates and ShakeMap products
+const DETAIL_MAGNITUDE_THRESHOLD = 4.5;
+const DETAIL_BATCH_SIZE = 5;
+// Contour lines are stored with the quake, so keep them small
+const CONTOUR_MAX_VERTICES = 250;
+const SHAKEMAP_GRID_CACHE_SIZE = 20;
+
+// PAGER rates expected fatalities and economic losses
+const pagerAlertToAlertType: Record<string, AlertType> = {
+  red: AlertType.Warning,
+  orange: AlertType.Warning,
+  yellow: AlertType.Watch,
+  green: AlertType.Advisory,
+};
+
 interface USGSFeature {
   id: string;
   properties: {
@@ -18,7 +34,10 @@ interface USGSFeature {
     url: string;
     detail: string;
     title: string;
-    alert: string | null;
+    alert: string | null; // PAGER alert level: green, yellow, orange or red
+    felt: number | null; // "Did You Feel It?" responses
+    cdi: number | null; // maximum reported intensity
+    mmi: number | null; // maximum ShakeMap intensity
     tsunami: number;
     type: string;
   };
@@ -41,8 +60,9 @@ interface USGSResponse {
   features: USGSFeature[];
 }
 
-// Fetch earthquake data from USGS
-export async function fetchEarthquakeData(timeRange: string = '1day'): Promise<Disaster[]> {
+// Fetch earthquake data from USGS. stored are the quakes already ingested,
+// whose enrichment stands in when it cannot be refetched.
+export async function fetchEarthquakeData(timeRange: string = '1day', stored: Disaster[] = []): Promise<InsertDisaster[]> {
   try {
     // Available time ranges: 'hour', '1day', '7days', '30days'
     let endpoint;
@@ -68,7 +88,9 @@ export async function fetchEarthquakeData(timeRange: string = '1day'): Promise<D
     }
 
     const response = await axios.get<USGSResponse>(`${USGS_API_URL}/${endpoint}`);
-    return mapUSGSResponseToDisasters(response.data);
+    const disasters = mapUSGSResponseToDisasters(response.data);
+    await enrichSignificantQuakes(response.data.features, disasters, stored);
+    return disasters;
   } catch (error) {
     console.error('Error fetching earthquake data from USGS:', error);
     throw new Error('Failed to fetch earthquake data');
@@ -76,7 +98,7 @@ export async function fetchEarthquakeData(timeRange: string = '1day'): Promise<D
 }
 
 // Map USGS response to our Disaster format
-function mapUSGSResponseToDisasters(data: USGSResponse): Disaster[] {
+function mapUSGSResponseToDisasters(data: USGSResponse): InsertDisaster[] {
   return data.features.map(feature => {
     // Determine alert type based on magnitude
     let alertType: AlertType;
@@ -93,7 +115,6 @@ function mapUSGSResponseToDisasters(data: USGSResponse): Disaster[] {
     
     // Create disaster object
     return {
-      id: feature.id,
       externalId: feature.id,
       disasterType: DisasterType.Earthquake,
       alertType,
@@ -108,12 +129,211 @@ function mapUSGSResponseToDisasters(data: USGSResponse): Disaster[] {
         magnitude: feature.properties.mag,
         depth: feature.geometry.coordinates[2],
         url: feature.properties.url,
-        tsunami: feature.properties.tsunami === 1
+        tsunami: feature.properties.tsunami === 1,
+        feltReports: feature.properties.felt ?? 0,
+        maxReportedIntensity: feature.properties.cdi
       }
     };
   });
 }
 
+interface USGSProduct {
+  properties: Record<string, string>;
+  contents: Record<string, { url: string }>;
+}
+
+interface USGSDetail {
+  properties: {
+    products: Record<string, USGSProduct[] | undefined>;
+  };
+}
+
+// ShakeMap intensity grid in CoverageJSON
+interface ShakeMapCoverage {
+  domain: {
+    axes: {
+      x: { start: number, stop: number, num: number };
+      y: { start: number, stop: number, num: number };
+    };
+  };
+  ranges: Record<string, { axisNames: string[], values: (number | null)[] }>;
+}
+
+// ShakeMap intensity contours (cont_mmi.json)
+interface ShakeMapContours {
+  features?: {
+    properties?: { value?: number };
+    geometry?: { type: 'LineString', coordinates: Position[] } | { type: 'MultiLineString', coordinates: Position[][] } | null;
+  }[];
+}
+
+interface PagerSummary {
+  alertLevel: string | null;
+  estimatedFatalities: number | null;
+  estimatedLossUsd: number | null;
+}
+
+interface ShakeMapSummary {
+  maxMmi: number | null;
+  contours: { mmi: number, lines: Position[][] }[];
+  gridUrl?: string;
+}
+
+interface QuakeEnrichment {
+  updated: number;
+  data: { pager?: PagerSummary, shakemap?: ShakeMapSummary };
+  alertType?: AlertType;
+}
+
+// Enrichment keyed by quake id and update time, so unchanged quakes are not refetched
+const enrichmentCache = new Map<string, QuakeEnrichment>();
+const gridCache = new Map<string, ShakeMapCoverage | null>();
+
+// Add PAGER impact estimates and ShakeMap contours to significant quakes, and
+// rate them by PAGER alert level where there is one
+async function enrichSignificantQuakes(features: USGSFeature[], disasters: InsertDisaster[], stored: Disaster[]): Promise<void> {
+  const significant = features
+    .map((feature, index) => ({ feature, disaster: disasters[index] }))
+    .filter(({ feature }) => feature.properties.alert || feature.properties.mag >= DETAIL_MAGNITUDE_THRESHOLD);
+
+  // Quakes that dropped out of the feed will not be asked for again
+  const current = new Set(significant.map(({ feature }) => feature.id));
+  enrichmentCache.forEach((_enrichment, id) => {
+    if (!current.has(id)) enrichmentCache.delete(id);
+  });
+
+  for (let i = 0; i < significant.length; i += DETAIL_BATCH_SIZE) {
+    await Promise.all(significant.slice(i, i + DETAIL_BATCH_SIZE).map(async ({ feature, disaster }) => {
+      let enrichment = enrichmentCache.get(feature.id);
+      if (!enrichment || enrichment.updated !== feature.properties.updated) {
+        const fetched = await fetchEnrichment(feature);
+        if (fetched) {
+          enrichmentCache.set(feature.id, fetched);
+        }
+        // A failed refetch keeps what the quake had, rather than dropping its
+        // PAGER and ShakeMap data and alert level until the next poll
+        enrichment = fetched ?? enrichment ?? storedEnrichment(stored.find(quake => quake.externalId === feature.id));
+        if (!enrichment) return;
+      }
+
+      disaster.data = { ...disaster.data, ...enrichment.data };
+      if (enrichment.alertType) disaster.alertType = enrichment.alertType;
+    }));
+  }
+}
+
+// The enrichment a stored quake was saved with, if it had any
+function storedEnrichment(quake: Disaster | undefined): QuakeEnrichment | undefined {
+  if (!quake?.data?.pager && !quake?.data?.shakemap) return undefined;
+  return {
+    updated: 0,
+    data: { pager: quake.data.pager, shakemap: quake.data.shakemap },
+    alertType: quake.alertType as AlertType,
+  };
+}
+
+// Failures return undefined and are retried next poll
+async function fetchEnrichment(feature: USGSFeature): Promise<QuakeEnrichment | undefined> {
+  try {
+    const { data: detail } = await axios.get<USGSDetail>(feature.properties.detail);
+    const pager = detail.properties.products.losspager?.[0];
+    const shakemap = detail.properties.products.shakemap?.[0];
+    const data: QuakeEnrichment['data'] = {};
+
+    if (pager) {
+      const lossesUrl = findContent(pager, /losses\.json$/);
+      const losses = lossesUrl ? (await axios.get(lossesUrl)).data : null;
+      data.pager = {
+        alertLevel: pager.properties.alertlevel ?? feature.properties.alert,
+        estimatedFatalities: losses?.empirical_fatality?.total_fatalities ?? null,
+        estimatedLossUsd: losses?.empirical_economic?.total_dollars ?? null,
+      };
+    }
+
+    if (shakemap) {
+      const contoursUrl = findContent(shakemap, /cont_mmi\.json$/);
+      const contours = contoursUrl ? (await axios.get<ShakeMapContours>(contoursUrl)).data : null;
+      data.shakemap = {
+        maxMmi: parseFloat(shakemap.properties.maxmmi) || feature.properties.mmi,
+        contours: contours ? simplifyContours(contours) : [],
+        gridUrl: findContent(shakemap, /coverage_mmi_low_res\.covjson$/) ?? findContent(shakemap, /coverage_mmi.*\.covjson$/),
+      };
+    }
+
+    const alertLevel = data.pager?.alertLevel ?? feature.properties.alert;
+    return {
+      updated: feature.properties.updated,
+      data,
+      alertType: alertLevel ? pagerAlertToAlertType[alertLevel] : undefined,
+    };
+  } catch (error) {
+    console.error(`Error fetching USGS detail for ${feature.id}:`, error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
+
+function findContent(product: USGSProduct, pattern: RegExp): string | undefined {
+  const key = Object.keys(product.contents ?? {}).find(name => pattern.test(name));
+  return key ? product.contents[key].url : undefined;
+}
+
+// One entry per intensity level, with its lines thinned and rounded to ~100 m
+function simplifyContours(collection: ShakeMapContours): ShakeMapSummary['contours'] {
+  return (collection.features ?? []).flatMap(feature => {
+    const mmi = feature.properties?.value;
+    const geometry = feature.geometry;
+    if (typeof mmi !== 'number' || !Array.isArray(geometry?.coordinates)) return [];
+
+    const lines = geometry.type === 'LineString' ? [geometry.coordinates] : geometry.type === 'MultiLineString' ? geometry.coordinates : [];
+    return [{
+      mmi,
+      lines: lines.map(line => {
+        const step = Math.ceil(line.length / CONTOUR_MAX_VERTICES);
+        return line
+          .filter((_, index) => index % step === 0 || index === line.length - 1)
+          .map(([longitude, latitude]): Position => [Math.round(longitude * 1000) / 1000, Math.round(latitude * 1000) / 1000]);
+      }),
+    }];
+  });
+}
+
+// ShakeMap intensity (MMI) at a point, or null if the quake has no ShakeMap
+// grid or the point is outside it
+export async function getShakingIntensity(earthquake: Disaster, latitude: number, longitude: number): Promise<number | null> {
+  const url: string | undefined = earthquake.data?.shakemap?.gridUrl;
+  if (!url) return null;
+
+  if (!gridCache.has(url)) {
+    try {
+      gridCache.set(url, (await axios.get<ShakeMapCoverage>(url)).data);
+    } catch (error) {
+      console.error(`Error fetching ShakeMap grid for ${earthquake.externalId}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+    // Forget the least recently added grid
+    if (gridCache.size > SHAKEMAP_GRID_CACHE_SIZE) {
+      gridCache.delete(gridCache.keys().next().value!);
+    }
+  }
+
+  const grid = gridCache.get(url);
+  return grid ? sampleGrid(grid, latitude, longitude) : null;
+}
+
+// Nearest grid cell to the point
+function sampleGrid(grid: ShakeMapCoverage, latitude: number, longitude: number): number | null {
+  const { x, y } = grid.domain.axes;
+  const range = grid.ranges.MMI ?? Object.values(grid.ranges)[0];
+  if (!range) return null;
+
+  const column = Math.round((longitude - x.start) / (x.stop - x.start) * (x.num - 1));
+  const row = Math.round((latitude - y.start) / (y.stop - y.start) * (y.num - 1));
+  if (column < 0 || column >= x.num || row < 0 || row >= y.num) return null;
+
+  const index = range.axisNames[0] === 'x' ? column * y.num + row : row * x.num + column;
+  return range.values[index] ?? null;
+}
+
 // Filter earthquakes by location (within radius)
 export function filterEarthquakesByLocation(
   earthquakes: Disaster[],
@@ -0,0 +1,142 @@
+import axios from 'axios';
+import { InsertDisaster } from '../../shared/schema';
+import { DisasterType, AlertType, getAlertSeverity } from '../utils/alertUtils';
+import { log } from '../vite';
+
+// USGS Volcano Hazards Program notification service (HANS): volcanoes whose
+// alert level or aviation color code is above normal, and each volcano's details
+const HANS_API = 'https://volcanoes.usgs.gov/hans-public/api/volcano';
+
+// An elevated volcano is kept alive by each poll, so it expires soon after
+// it returns to normal
+const ELEVATED_VALID_MS = 2 * 60 * 60 * 1000;
+
+// Volcano alert levels, for people on the ground
+const alertLevelToAlertType: Record<string, AlertType> = {
+  WARNING: AlertType.Warning,
+  WATCH: AlertType.Watch,
+  ADVISORY: AlertType.Advisory,
+};
+
+// Aviation color codes, for ash in the air
+const colorCodeToAlertType: Record<string, AlertType> = {
+  RED: AlertType.Warning,
+  ORANGE: AlertType.Watch,
+  YELLOW: AlertType.Advisory,
+};
+
+interface HANSElevatedVolcano {
+  obs_fullname: string; // e.g. Alaska Volcano Observatory
+  obs_abbr: string;
+  volcano_name: string;
+  vnum: string; // Smithsonian volcano number
+  notice_type_cd: string;
+  notice_identifier: string;
+  sent_utc: string; // e.g. 2024-05-01 18:20:00
+  sent_unixtime?: number;
+  color_code: string; // GREEN, YELLOW, ORANGE or RED
+  alert_level: string; // NORMAL, ADVISORY, WATCH or WARNING
+  notice_url: string;
+  nvews_threat?: string; // National Volcano Early Warning System threat ranking
+}
+
+interface HANSVolcano {
+  vnum: string;
+  volcano_name: string;
+  latitude: number;
+  longitude: number;
+  elevation_meters?: number;
+  region?: string;
+  volcano_url?: string;
+}
+
+// Volcanoes do not move, so each is looked up once
+const volcanoCache = new Map<string, HANSVolcano>();
+
+// Fetch every volcano above normal, placed by its details from HANS
+export async function fetchElevatedVolcanoes(): Promise<InsertDisaster[]> {
+  try {
+    const response = await axios.get<HANSElevatedVolcano[]>(`${HANS_API}/getElevatedVolcanoes`);
+    const disasters: InsertDisaster[] = [];
+    let unlocated = 0;
+
+    for (const elevated of response.data ?? []) {
+      const volcano = await getVolcano(elevated.vnum);
+      const disaster = volcano && mapElevatedVolcano(elevated, volcano);
+      if (disaster) disasters.push(disaster);
+      else if (!volcano) unlocated++;
+    }
+
+    if (unlocated > 0) {
+      log(`skipped ${unlocated} volcano(es) without a location`, 'ingestion');
+    }
+    return disasters;
+  } catch (error) {
+    console.error('Error fetching elevated volcanoes from HANS:', error);
+    throw new Error('Failed to fetch volcano data');
+  }
+}
+
+// Failed lookups are not cached, so they are retried on the next poll
+async function getVolcano(vnum: string): Promise<HANSVolcano | null> {
+  const cached = volcanoCache.get(vnum);
+  if (cached) return cached;
+
+  try {
+    const response = await axios.get<HANSVolcano>(`${HANS_API}/getVolcano/${vnum}`);
+    const volcano = response.data;
+    if (typeof volcano?.latitude !== 'number' || typeof volcano?.longitude !== 'number') return null;
+
+    volcanoCache.set(vnum, volcano);
+    return volcano;
+  } catch (error) {
+    console.error(`Error fetching volcano ${vnum} from HANS:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// The more severe of the alert level and the aviation color code sets the
+// alert type. Null for a volcano that is normal by both.
+export function mapElevatedVolcano(elevated: HANSElevatedVolcano, volcano: HANSVolcano): InsertDisaster | null {
+  const alertLevel = elevated.alert_level?.toUpperCase();
+  const colorCode = elevated.color_code?.toUpperCase();
+  const alertType = [alertLevelToAlertType[alertLevel], colorCodeToAlertType[colorCode]]
+    .filter((type): type is AlertType => type !== undefined)
+    .sort((a, b) => getAlertSeverity(b) - getAlertSeverity(a))[0];
+  if (!alertType) return null;
+
+  const sentAt = elevated.sent_unixtime
+    ? new Date(elevated.sent_unixtime * 1000)
+    : new Date(`${elevated.sent_utc.replace(' ', 'T')}Z`);
+
+  return {
+    externalId: `hans-${elevated.vnum}`,
+    disasterType: DisasterType.Volcano,
+    alertType,
+    title: `${elevated.volcano_name}: Volcano ${toTitleCase(alertLevel)}, Aviation Code ${toTitleCase(colorCode)}`,
+    description: `${elevated.obs_fullname} has ${elevated.volcano_name} at volcano alert level ${alertLevel} and aviation color code ${colorCode}.`,
+    location: volcano.region ? `${elevated.volcano_name}, ${volcano.region}` : elevated.volcano_name,
+    latitude: volcano.latitude.toString(),
+    longitude: volcano.longitude.toString(),
+    source: 'USGS Volcanoes',
+    timestamp: sentAt,
+    validUntil: new Date(Date.now() + ELEVATED_VALID_MS),
+    data: {
+      volcano: {
+        vnum: elevated.vnum,
+        name: elevated.volcano_name,
+        elevation: volcano.elevation_meters,
+        threat: elevated.nvews_threat,
+      },
+      alertLevel,
+      colorCode,
+      observatory: elevated.obs_fullname,
+      noticeId: elevated.notice_identifier,
+      url: elevated.notice_url ?? volcano.volcano_url,
+    },
+  };
+}
+
+function toTitleCase(value: string): string {
+  return value.charAt(0) + value.slice(1).toLowerCase();
+}
@@ -0,0 +1,226 @@
+import axios from 'axios';
+import { InsertDisaster } from '../../shared/schema';
+import { DisasterType, AlertType } from '../utils/alertUtils';
+
+// USGS Water Services instantaneous values: the latest readings of stream gauges
+const USGS_IV_API = 'https://waterservices.usgs.gov/nwis/iv/';
+// NWS National Water Prediction Service: the flood stages of gauges it forecasts.
+// Gauges are looked up by their USGS site number.
+const NWPS_GAUGES_API = 'https://api.water.noaa.gov/nwps/v1/gauges';
+
+const GAGE_HEIGHT = '00065'; // feet
+const DISCHARGE = '00060'; // cubic feet per second
+
+// Gauges within this distance of a saved location are watched
+const GAUGE_SEARCH_RADIUS_KM = 25;
+const KM_PER_DEGREE = 111.2;
+
+// Flood stages are revised rarely
+const STAGE_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// A flooding gauge stays active for a while after its latest reading, so it
+// expires soon after it drops below action stage or stops reporting. Readings
+// arrive up to an hour late, so this leaves room for that.
+const FLOOD_VALID_MS = 2 * 60 * 60 * 1000;
+// Readings kept for the hydrograph
+const HYDROGRAPH_MAX_READINGS = 96;
+
+export type FloodCategory = 'action' | 'minor' | 'moderate' | 'major';
+
+// Most severe first
+const FLOOD_CATEGORIES: FloodCategory[] = ['major', 'moderate', 'minor', 'action'];
+
+const floodCategoryToAlertType: Record<FloodCategory, AlertType> = {
+  major: AlertType.Warning,
+  moderate: AlertType.Warning,
+  minor: AlertType.Watch,
+  action: AlertType.Advisory,
+};
+
+const floodCategoryNames: Record<FloodCategory, string> = {
+  major: 'Major Flooding',
+  moderate: 'Moderate Flooding',
+  minor: 'Minor Flooding',
+  action: 'Near Flood Stage',
+};
+
+interface USGSTimeSeries {
+  sourceInfo: {
+    siteName: string;
+    siteCode: { value: string }[];
+    geoLocation: { geogLocation: { latitude: number, longitude: number } };
+  };
+  variable: {
+    variableCode: { value: string }[];
+    noDataValue: number | null;
+  };
+  values: { value: { value: string, dateTime: string }[] }[];
+}
+
+interface USGSIVResponse {
+  value: { timeSeries: USGSTimeSeries[] };
+}
+
+interface NWPSGauge {
+  lid: string;
+  name: string;
+  flood?: {
+    stageUnits: string;
+    categories: Partial<Record<FloodCategory, { stage: number | null }>>;
+  };
+}
+
+type FloodStages = Partial<Record<FloodCategory, number>>;
+
+interface Reading {
+  time: Date;
+  value: number;
+}
+
+// null when the NWS publishes no flood stages for the gauge
+const stageCache = new Map<string, { lid: string | null, stages: FloodStages | null, expiresAt: number }>();
+
+// Check the gauges near each point and report those above action stage
+export async function fetchFloodGauges(points: { latitude: number, longitude: number }[]): Promise<InsertDisaster[]> {
+  const sites = new Map<string, { series: USGSTimeSeries[] }>();
+
+  try {
+    // Nearby locations share gauges, so each site's series are collected once
+    for (const point of points) {
+      for (const series of await fetchGaugeReadings(point.latitude, point.longitude)) {
+        const site = series.sourceInfo.siteCode[0]?.value;
+        if (!site) continue;
+        const entry = sites.get(site) ?? { series: [] };
+        if (!entry.series.some(s => s.variable.variableCode[0]?.value === series.variable.variableCode[0]?.value)) {
+          entry.series.push(series);
+        }
+        sites.set(site, entry);
+      }
+    }
+  } catch (error) {
+    console.error('Error fetching river gauges from USGS Water Services:', error);
+    throw new Error('Failed to fetch river gauge data');
+  }
+
+  const disasters: InsertDisaster[] = [];
+  for (const [site, { series }] of Array.from(sites)) {
+    const stage = getReadings(series, GAGE_HEIGHT);
+    if (stage.length === 0) continue;
+
+    const { lid, stages } = await getFloodStages(site);
+    if (!stages) continue;
+
+    const latest = stage[stage.length - 1];
+    const category = FLOOD_CATEGORIES.find(name => latest.value >= (stages[name] ?? Infinity));
+    if (!category) continue;
+
+    disasters.push(mapGauge(site, lid, series[0], category, stages, stage, getReadings(series, DISCHARGE)));
+  }
+  return disasters;
+}
+
+async function fetchGaugeReadings(latitude: number, longitude: number): Promise<USGSTimeSeries[]> {
+  const dLat = GAUGE_SEARCH_RADIUS_KM / KM_PER_DEGREE;
+  const dLon = dLat / Math.max(Math.cos(latitude * Math.PI / 180), 0.1);
+  const bBox = [longitude - dLon, latitude - dLat, longitude + dLon, latitude + dLat]
+    .map(value => value.toFixed(5))
+    .join(',');
+
+  try {
+    const response = await axios.get<USGSIVResponse>(USGS_IV_API, {
+      params: {
+        format: 'json',
+        bBox,
+        parameterCd: `${GAGE_HEIGHT},${DISCHARGE}`,
+        siteType: 'ST', // streams
+        siteStatus: 'active',
+        period: 'P1D',
+      },
+    });
+    return response.data.value?.timeSeries ?? [];
+  } catch (error) {
+    // No gauges in the box is answered with a 404
+    if (axios.isAxiosError(error) && error.response?.status === 404) return [];
+    throw error;
+  }
+}
+
+// A parameter's readings, oldest first, without missing values
+function getReadings(series: USGSTimeSeries[], parameter: string): Reading[] {
+  const match = series.find(s => s.variable.variableCode[0]?.value === parameter);
+  if (!match) return [];
+
+  return (match.values[0]?.value ?? [])
+    .map(reading => ({ time: new Date(reading.dateTime), value: parseFloat(reading.value) }))
+    .filter(reading => !isNaN(reading.value) && reading.value !== match.variable.noDataValue);
+}
+
+async function getFloodStages(site: string): Promise<{ lid: string | null, stages: FloodStages | null }> {
+  const cached = stageCache.get(site);
+  if (cached && cached.expiresAt > Date.now()) return cached;
+
+  try {
+    const { data } = await axios.get<NWPSGauge>(`${NWPS_GAUGES_API}/${site}`);
+    const stages: FloodStages = {};
+    for (const name of FLOOD_CATEGORIES) {
+      const stage = data.flood?.categories?.[name]?.stage;
+      // Undefined categories are published as -9999
+      if (typeof stage === 'number' && stage > -999) stages[name] = stage;
+    }
+
+    const entry = {
+      lid: data.lid ?? null,
+      stages: Object.keys(stages).length > 0 ? stages : null,
+      expiresAt: Date.now() + STAGE_CACHE_TTL_MS,
+    };
+    stageCache.set(site, entry);
+    return entry;
+  } catch (error) {
+    // Most USGS gauges are not NWS forecast points
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      stageCache.set(site, { lid: null, stages: null, expiresAt: Date.now() + STAGE_CACHE_TTL_MS });
+    } else {
+      console.error(`Error fetching flood stages for gauge ${site}:`, error instanceof Error ? error.message : error);
+    }
+    return { lid: null, stages: null };
+  }
+}
+
+function mapGauge(
+  site: string,
+  lid: string | null,
+  series: USGSTimeSeries,
+  category: FloodCategory,
+  stages: FloodStages,
+  stage: Reading[],
+  flow: Reading[]
+): InsertDisaster {
+  const { siteName, geoLocation } = series.sourceInfo;
+  const latest = stage[stage.length - 1];
+  const step = Math.ceil(stage.length / HYDROGRAPH_MAX_READINGS);
+
+  return {
+    externalId: `usgs-gauge-${site}`,
+    disasterType: DisasterType.Flood,
+    alertType: floodCategoryToAlertType[category],
+    title: `${floodCategoryNames[category]}: ${siteName}`,
+    description: `The river gauge at ${siteName} reads ${latest.value} ft, at or above its ${category} flood stage of ${stages[category]} ft.`,
+    location: siteName,
+    latitude: geoLocation.geogLocation.latitude.toString(),
+    longitude: geoLocation.geogLocation.longitude.toString(),
+    source: 'USGS Water',
+    timestamp: latest.time,
+    validUntil: new Date(latest.time.getTime() + FLOOD_VALID_MS),
+    data: {
+      gauge: { site, nwsId: lid, name: siteName },
+      stage: latest.value,
+      flow: flow.length > 0 ? flow[flow.length - 1].value : null,
+      floodCategory: category,
+      floodStages: stages,
+      // Hydrograph of gage height (ft) over the last day
+      readings: stage
+        .filter((_, index) => index % step === 0 || index === stage.length - 1)
+        .map(reading => ({ time: reading.time.toISOString(), stage: reading.value })),
+      url: `https://waterdata.usgs.gov/monitoring-location/${site}/`,
+    },
+  };
+}
@@ -0,0 +1,227 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { insertUserSchema, defaultUserPreferences, type User as SelectUser } from "@shared/schema";
+import { phoneNumberSchema } from "./notifications/sms";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Passwords are stored as "<hex hash>.<hex salt>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never send the password hash to the client
+export function toUserResponse(user: SelectUser) {
+  const { password, ...rest } = user;
+  return rest;
+}
+
+// Rejects the request with 401 unless a user is logged in
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+const registerSchema = insertUserSchema
+  .pick({ username: true, password: true, email: true, phone: true, location: true })
+  .extend({
+    username: z.string().trim().min(3).max(32),
+    password: z.string().min(8),
+    email: z.string().trim().email(),
+    phone: phoneNumberSchema.nullish(),
+  });
+
+// An empty phone number removes it
+const contactSchema = z.object({
+  email: z.string().trim().email(),
+  phone: z.union([z.literal('').transform(() => null), phoneNumberSchema]).nullable(),
+}).partial();
+
+function createSessionStore(): session.Store {
+  // Sessions live in Postgres alongside the rest of the data when it is
+  // available, otherwise in a pruned in-memory store
+  if (pool) {
+    const PostgresSessionStore = connectPg(session);
+    return new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+export function setupAuth(app: Express) {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    console.warn("SESSION_SECRET is not set; sessions will not survive a restart");
+    secret = randomBytes(32).toString("hex");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    store: createSessionStore(),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parseResult = registerSchema.safeParse(req.body);
+
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: 'Invalid registration data',
+          errors: parseResult.error.errors
+        });
+      }
+
+      const { username, email, password } = parseResult.data;
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: 'Username is already taken' });
+      }
+
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ message: 'An account with this email already exists' });
+      }
+
+      const user = await storage.createUser({
+        ...parseResult.data,
+        password: await hashPassword(password),
+        preferences: defaultUserPreferences,
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toUserResponse(user));
+      });
+    } catch (error) {
+      console.error('Error in POST /api/auth/register:', error);
+      res.status(500).json({ message: 'Failed to create account' });
+    }
+  });
+
+  app.post("/api/auth/login", (req: Request, res: Response, next: NextFunction) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false, info?: { message: string }) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: info?.message || 'Invalid username or password' });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toUserResponse(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ message: 'Logged out successfully' });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth, (req: Request, res: Response) => {
+    res.json(toUserResponse(req.user!));
+  });
+
+  // Update contact details; a new phone number has to be verified again
+  app.patch("/api/auth/me", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parseResult = contactSchema.safeParse(req.body);
+
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: 'Invalid contact information',
+          errors: parseResult.error.errors
+        });
+      }
+
+      const user = req.user!;
+      const { email, phone } = parseResult.data;
+
+      if (email !== undefined && email !== user.email) {
+        const existing = await storage.getUserByEmail(email);
+        if (existing && existing.id !== user.id) {
+          return res.status(409).json({ message: 'An account with this email already exists' });
+        }
+      }
+
+      const phoneChanged = phone !== undefined && phone !== user.phone;
+      const updated = await storage.updateUser(user.id, {
+        email,
+        phone,
+        ...(phoneChanged && { phoneVerified: false }),
+      });
+
+      res.json(toUserResponse(updated!));
+    } catch (error) {
+      console.error('Error in PATCH /api/auth/me:', error);
+      res.status(500).json({ message: 'Failed to update contact information' });
+    }
+  });
+}
@@ -0,0 +1,16 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// The database is optional: without DATABASE_URL the server falls back to
+// in-memory storage (see storage.ts), so only connect when it is provisioned.
+export const pool = process.env.DATABASE_URL
+  ? new Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
+
+export const db = pool ? drizzle({ client: pool, schema }) : null;
+
+export type Database = NonNullable<typeof db>;
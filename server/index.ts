@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startIngestion } from "./ingestion";
+import { startNotificationRetries } from "./notifications";
+import { startWebhookRetries } from "./webhooks";
 
 const app = express();
 app.use(express.json());
@@ -66,5 +69,8 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startIngestion();
+    startNotificationRetries();
+    startWebhookRetries();
   });
 })();
@@ -0,0 +1,204 @@
+import { Disaster, InsertDisaster } from '@shared/schema';
+import { storage } from './storage';
+import { fetchEarthquakeData } from './api/usgs';
+import { fetchWeatherAlerts } from './api/noaa';
+import { fetchWeatherOneCall } from './api/openweathermap';
+import { fetchGDACSEvents } from './api/gdacs';
+import { fetchDisasterDeclarations } from './api/fema';
+import { fetchActiveFires, hasFirmsMapKey } from './api/firms';
+import { fetchWildfireEvents } from './api/eonet';
+import { fetchFloodGauges } from './api/waterGauges';
+import { fetchTropicalCyclones } from './api/nhc';
+import { fetchTsunamiMessages } from './api/tsunami';
+import { fetchElevatedVolcanoes } from './api/volcano';
+import { processDisaster } from './alertEngine';
+import { publishDisaster } from './realtime';
+import { dispatchWebhooks } from './webhooks';
+import { getAlertSeverity } from './utils/alertUtils';
+import { log } from './vite';
+
+// An upstream feed polled on its own interval. firstRun is true until the
+// source has completed once, so feeds can backfill a longer window.
+interface IngestionSource {
+  name: string;
+  intervalMs: number;
+  fetch: (firstRun: boolean) => Promise<InsertDisaster[]>;
+}
+
+const sources: IngestionSource[] = [
+  {
+    name: 'USGS',
+    intervalMs: getPollInterval('USGS_POLL_INTERVAL_MS', 60 * 1000),
+    fetch: async (firstRun) => fetchEarthquakeData(firstRun ? '30days' : '1day', (await storage.getDisasters()).filter(d => d.source === 'USGS')),
+  },
+  {
+    name: 'NOAA',
+    intervalMs: getPollInterval('NOAA_POLL_INTERVAL_MS', 2 * 60 * 1000),
+    fetch: () => fetchWeatherAlerts(),
+  },
+  {
+    name: 'OpenWeatherMap',
+    intervalMs: getPollInterval('OWM_POLL_INTERVAL_MS', 10 * 60 * 1000),
+    fetch: () => fetchWeatherForSavedLocations(),
+  },
+  {
+    name: 'GDACS',
+    intervalMs: getPollInterval('GDACS_POLL_INTERVAL_MS', 15 * 60 * 1000),
+    fetch: () => fetchGDACSEvents(),
+  },
+  {
+    name: 'FEMA',
+    intervalMs: getPollInterval('FEMA_POLL_INTERVAL_MS', 60 * 60 * 1000),
+    fetch: (firstRun) => fetchDisasterDeclarations(firstRun),
+  },
+  {
+    name: 'NASA FIRMS',
+    intervalMs: getPollInterval('FIRMS_POLL_INTERVAL_MS', 15 * 60 * 1000),
+    fetch: async () => fetchActiveFires((await storage.getDisasters()).filter(d => d.source === 'NASA FIRMS')),
+  },
+  {
+    name: 'NASA EONET',
+    intervalMs: getPollInterval('EONET_POLL_INTERVAL_MS', 30 * 60 * 1000),
+    fetch: () => fetchWildfireEvents(),
+  },
+  {
+    name: 'USGS Water',
+    intervalMs: getPollInterval('USGS_WATER_POLL_INTERVAL_MS', 15 * 60 * 1000),
+    fetch: async () => fetchFloodGauges(await getSavedLocationPoints()),
+  },
+  {
+    name: 'NHC',
+    intervalMs: getPollInterval('NHC_POLL_INTERVAL_MS', 15 * 60 * 1000),
+    fetch: () => fetchTropicalCyclones(),
+  },
+  {
+    name: 'Tsunami Warning Centers',
+    intervalMs: getPollInterval('TSUNAMI_POLL_INTERVAL_MS', 2 * 60 * 1000),
+    fetch: async () => fetchTsunamiMessages((await storage.getDisasters()).filter(d => d.source === 'USGS')),
+  },
+  {
+    name: 'USGS Volcanoes',
+    intervalMs: getPollInterval('VOLCANO_POLL_INTERVAL_MS', 30 * 60 * 1000),
+    fetch: () => fetchElevatedVolcanoes(),
+  },
+];
+
+const timers = new Map<string, NodeJS.Timeout>();
+
+// Poll every source now and then on its interval. Each source schedules its
+// next run only after the current one finishes, so slow feeds never overlap.
+export function startIngestion() {
+  if (!hasFirmsMapKey()) {
+    log('FIRMS_MAP_KEY is not set; NASA FIRMS hotspots will not be ingested', 'ingestion');
+  }
+
+  for (const source of sources) {
+    if (timers.has(source.name)) continue;
+
+    const tick = async () => {
+      await ingestSource(source);
+      if (timers.has(source.name)) {
+        timers.set(source.name, setTimeout(tick, source.intervalMs));
+      }
+    };
+
+    timers.set(source.name, setTimeout(tick, 0));
+  }
+}
+
+export function stopIngestion() {
+  timers.forEach(timer => clearTimeout(timer));
+  timers.clear();
+}
+
+// Fetch one source and upsert its records by externalId. Changes are pushed to
+// live subscribers, and new and upgraded disasters are handed to the alert engine.
+export async function ingestSource(source: IngestionSource): Promise<void> {
+  const startedAt = new Date();
+  const status = (await storage.getSourceStatuses()).find(s => s.source === source.name);
+
+  try {
+    const firstRun = !status?.lastSuccessAt;
+    const records = await source.fetch(firstRun);
+
+    for (const record of records) {
+      await upsertDisaster(record, firstRun);
+    }
+
+    await storage.upsertSourceStatus({
+      source: source.name,
+      lastRunAt: startedAt,
+      lastSuccessAt: new Date(),
+      lastError: null,
+      recordCount: records.length,
+    });
+    log(`${source.name}: ${records.length} records`, 'ingestion');
+  } catch (error) {
+    console.error(`Error ingesting ${source.name}:`, error);
+    await storage.upsertSourceStatus({
+      source: source.name,
+      lastRunAt: startedAt,
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// A source's first run backfills what is already out there, which webhook
+// subscribers are not sent; they hear about what appears after that
+async function upsertDisaster(record: InsertDisaster, firstRun: boolean): Promise<void> {
+  const existing = await storage.getDisasterByExternalId(record.externalId);
+
+  if (!existing) {
+    const created = await storage.createDisaster(record);
+    publishDisaster('created', created);
+    if (!firstRun) void dispatchWebhooks('created', created);
+    await processDisaster(created);
+    return;
+  }
+
+  // Feeds resend every active record on each poll; only real changes are news
+  const updated = await storage.updateDisaster(existing.id, record);
+  if (!updated || !hasChanged(existing, updated)) return;
+
+  publishDisaster('updated', updated, existing);
+  void dispatchWebhooks('updated', updated);
+  if (getAlertSeverity(updated.alertType) > getAlertSeverity(existing.alertType)) {
+    await processDisaster(updated);
+  }
+}
+
+// validUntil alone is not news: sources that keep a record alive by polling,
+// such as USGS Volcanoes, push it forward every time, and the expiry sweep
+// reads it from storage anyway
+function hasChanged(before: Disaster, after: Disaster): boolean {
+  return JSON.stringify({ ...before, validUntil: null }) !== JSON.stringify({ ...after, validUntil: null });
+}
+
+// OpenWeatherMap is queried per point, so poll each distinct saved location
+async function fetchWeatherForSavedLocations(): Promise<InsertDisaster[]> {
+  const results = await Promise.all(
+    (await getSavedLocationPoints()).map(p => fetchWeatherOneCall(p.latitude, p.longitude))
+  );
+  return results.flat();
+}
+
+// Every user's saved locations, without near-duplicates
+async function getSavedLocationPoints(): Promise<{ latitude: number, longitude: number }[]> {
+  const points = new Map<string, { latitude: number, longitude: number }>();
+
+  for (const user of await storage.getUsers()) {
+    for (const location of await storage.getSavedLocations(user.id)) {
+      const latitude = parseFloat(location.latitude);
+      const longitude = parseFloat(location.longitude);
+      // ~1km grid so neighbouring saved locations share a request
+      points.set(`${latitude.toFixed(2)},${longitude.toFixed(2)}`, { latitude, longitude });
+    }
+  }
+
+  return Array.from(points.values());
+}
+
+function getPollInterval(envVar: string, defaultMs: number): number {
+  const value = parseInt(process.env[envVar] || '', 10);
+  return value > 0 ? value : defaultMs;
+}
@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { defaultUserPreferences } from '@shared/schema';
+import { storage } from '../storage';
+import { dispatchAlerts, retryFailedDeliveries } from './index';
+import { EmailMessage, EmailTransport, setEmailTransport } from './email';
+import { FakeSmsProvider, setSmsProvider } from './sms';
+import { LocalPushService, setPushService } from './push';
+
+const MINUTE = 60 * 1000;
+
+// Captures sent emails, or fails every send while down
+class CapturingTransport implements EmailTransport {
+  messages: EmailMessage[] = [];
+  down = false;
+
+  async send(message: EmailMessage): Promise<void> {
+    if (this.down) throw new Error('SMTP unavailable');
+    this.messages.push(message);
+  }
+}
+
+let email: CapturingTransport;
+let sms: FakeSmsProvider;
+let push: LocalPushService;
+
+beforeEach(() => {
+  email = new CapturingTransport();
+  sms = new FakeSmsProvider();
+  push = new LocalPushService();
+  setEmailTransport(email);
+  setSmsProvider(sms);
+  setPushService(push);
+});
+
+let nextUser = 1;
+async function alertForNewUser(smsNotifications = false) {
+  const n = nextUser++;
+  const user = await storage.createUser({
+    username: `user${n}`,
+    password: 'hashed',
+    email: `user${n}@example.com`,
+    phone: '+15555550100',
+    phoneVerified: true,
+    preferences: { ...defaultUserPreferences, smsNotifications },
+  });
+  const alert = await storage.createAlert({
+    userId: user.id,
+    alertType: 'warning',
+    disasterType: 'earthquake',
+    message: 'Magnitude 6.1 Earthquake near you',
+    location: 'Offshore',
+  });
+  return { user, alert };
+}
+
+describe('dispatchAlerts', () => {
+  it('delivers on every channel the user has turned on', async () => {
+    const { user, alert } = await alertForNewUser(true);
+    await storage.upsertPushSubscription({ userId: user.id, endpoint: `https://push.example/${user.id}`, p256dh: 'key', auth: 'auth' });
+
+    await dispatchAlerts([alert]);
+
+    expect(email.messages.map(message => message.to)).toEqual([user.email]);
+    expect(sms.messages.map(message => message.to)).toEqual(['+15555550100']);
+    expect(push.messages.map(message => message.endpoint)).toEqual([`https://push.example/${user.id}`]);
+
+    const deliveries = await storage.getDeliveriesForAlert(alert.id);
+    expect(deliveries.map(delivery => delivery.channel).sort()).toEqual(['email', 'push', 'sms']);
+    expect(deliveries.every(delivery => delivery.status === 'sent' && delivery.attempts === 1)).toBe(true);
+  });
+
+  it('abandons deliveries to expired push subscriptions and removes them', async () => {
+    const { user, alert } = await alertForNewUser();
+    const endpoint = `https://push.example/${user.id}`;
+    await storage.upsertPushSubscription({ userId: user.id, endpoint, p256dh: 'key', auth: 'auth' });
+    push.expire(endpoint);
+
+    await dispatchAlerts([alert]);
+
+    const [delivery] = (await storage.getDeliveriesForAlert(alert.id)).filter(d => d.channel === 'push');
+    expect(delivery.status).toBe('abandoned');
+    expect(await storage.getPushSubscriptionByEndpoint(endpoint)).toBeUndefined();
+  });
+});
+
+describe('retryFailedDeliveries', () => {
+  it('retries a failed delivery once its backoff has elapsed', async () => {
+    const { alert } = await alertForNewUser();
+    email.down = true;
+    await dispatchAlerts([alert]);
+
+    const [failed] = await storage.getDeliveriesForAlert(alert.id);
+    expect(failed.status).toBe('failed');
+
+    email.down = false;
+    const attemptedAt = failed.lastAttemptAt!.getTime();
+    await retryFailedDeliveries(new Date(attemptedAt + 30 * 1000));
+    expect((await storage.getDelivery(failed.id))!.attempts).toBe(1);
+
+    await retryFailedDeliveries(new Date(attemptedAt + MINUTE));
+    const retried = (await storage.getDelivery(failed.id))!;
+    expect(retried.status).toBe('sent');
+    expect(retried.attempts).toBe(2);
+    expect(email.messages).toHaveLength(1);
+  });
+
+  it('gives up after five attempts', async () => {
+    const { alert } = await alertForNewUser();
+    email.down = true;
+    await dispatchAlerts([alert]);
+    const [delivery] = await storage.getDeliveriesForAlert(alert.id);
+
+    // Far enough apart that every backoff has elapsed
+    for (let retry = 1; retry <= 5; retry++) {
+      await retryFailedDeliveries(new Date(Date.now() + retry * 60 * MINUTE));
+    }
+
+    const exhausted = (await storage.getDelivery(delivery.id))!;
+    expect(exhausted.status).toBe('failed');
+    expect(exhausted.attempts).toBe(5);
+  });
+});
@@ -0,0 +1,122 @@
+import { AlertHistory, NotificationDelivery } from '@shared/schema';
+import { storage } from '../storage';
+import { getUserPreferences } from '../utils/alertUtils';
+import { isRetryDue } from '../utils/retryBackoff';
+import { AlertNotification, NotificationChannel, PermanentDeliveryError } from './types';
+import { emailChannel } from './email';
+import { smsChannel } from './sms';
+import { pushChannel } from './push';
+import { log } from '../vite';
+
+const channels: NotificationChannel[] = [emailChannel, smsChannel, pushChannel];
+
+// Failed deliveries are retried on the schedule in utils/retryBackoff.
+// Permanent failures are marked abandoned and never retried.
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+let retryTimer: NodeJS.Timeout | undefined;
+
+// Notify each alert's user on every channel they have turned on. Every attempt
+// is recorded in notification_deliveries; failures never throw.
+export async function dispatchAlerts(alerts: AlertHistory[]): Promise<void> {
+  for (const alert of alerts) {
+    try {
+      await dispatchAlert(alert);
+    } catch (error) {
+      console.error(`Error dispatching alert ${alert.id}:`, error);
+    }
+  }
+}
+
+async function dispatchAlert(alert: AlertHistory) {
+  if (alert.userId === null) return;
+
+  const user = await storage.getUser(alert.userId);
+  if (!user) return;
+
+  const preferences = getUserPreferences(user);
+
+  for (const channel of channels) {
+    for (const recipient of await channel.getRecipients(user, preferences)) {
+      const delivery = await storage.createDelivery({
+        alertId: alert.id,
+        userId: user.id,
+        channel: channel.name,
+        recipient,
+      });
+      await attemptDelivery(delivery);
+    }
+  }
+}
+
+export async function attemptDelivery(delivery: NotificationDelivery): Promise<NotificationDelivery> {
+  const attemptedAt = new Date();
+  const attempts = delivery.attempts + 1;
+
+  try {
+    const channel = channels.find(c => c.name === delivery.channel);
+    if (!channel) throw new Error(`Unknown notification channel: ${delivery.channel}`);
+
+    await channel.send(delivery.recipient, await loadNotification(delivery.alertId));
+
+    const sent = await storage.updateDelivery(delivery.id, {
+      status: 'sent',
+      attempts,
+      lastAttemptAt: attemptedAt,
+      sentAt: new Date(),
+      lastError: null,
+    });
+    return sent!;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log(`${delivery.channel} delivery ${delivery.id} failed (attempt ${attempts}): ${message}`, 'notifications');
+
+    const failed = await storage.updateDelivery(delivery.id, {
+      status: error instanceof PermanentDeliveryError ? 'abandoned' : 'failed',
+      attempts,
+      lastAttemptAt: attemptedAt,
+      lastError: message,
+    });
+    return failed!;
+  }
+}
+
+// Retry failed deliveries whose backoff has elapsed
+export async function retryFailedDeliveries(now: Date = new Date()): Promise<void> {
+  for (const delivery of await storage.getDeliveriesByStatus('failed')) {
+    if (!isRetryDue(delivery, now)) continue;
+
+    await attemptDelivery(delivery);
+  }
+}
+
+export function startNotificationRetries() {
+  if (retryTimer) return;
+
+  retryTimer = setInterval(() => {
+    retryFailedDeliveries().catch(error => console.error('Error retrying deliveries:', error));
+  }, RETRY_INTERVAL_MS);
+}
+
+export function stopNotificationRetries() {
+  clearInterval(retryTimer);
+  retryTimer = undefined;
+}
+
+// Rebuilt from storage on every attempt, so retries render current details
+async function loadNotification(alertId: number): Promise<AlertNotification> {
+  const alert = await storage.getAlert(alertId);
+  if (!alert || alert.userId === null) throw new Error(`Alert ${alertId} not found`);
+
+  const user = await storage.getUser(alert.userId);
+  if (!user) throw new Error(`User ${alert.userId} not found`);
+
+  const disaster = alert.externalId
+    ? await storage.getDisasterByExternalId(alert.externalId)
+    : undefined;
+
+  const baseUrl = (process.env.APP_BASE_URL || 'http://localhost:5000').replace(/\/$/, '');
+  const link = disaster ? `${baseUrl}/?disaster=${disaster.id}` : `${baseUrl}/alerts`;
+
+  return { alert, user, disaster, link };
+}
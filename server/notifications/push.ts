@@ -0,0 +1,120 @@
+import webpush, { WebPushError } from 'web-push';
+import { PushSubscription } from '@shared/schema';
+import { storage } from '../storage';
+import { NotificationChannel, PermanentDeliveryError } from './types';
+import { renderAlertPush, type PushPayload } from './templates';
+import { log } from '../vite';
+
+export interface PushService {
+  send(subscription: PushSubscription, payload: PushPayload): Promise<void>;
+}
+
+// How long the push service should hold a message for an offline browser
+const PUSH_TTL_SECONDS = 60 * 60;
+
+let vapidKeys: { publicKey: string, privateKey: string } | undefined;
+
+// Browsers tie a subscription to the key it was created with, so keys
+// generated at startup stop working for existing subscriptions after a restart
+function getVapidKeys() {
+  if (!vapidKeys) {
+    const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY } = process.env;
+    if (VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY) {
+      vapidKeys = { publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY };
+    } else {
+      console.warn("VAPID_PUBLIC_KEY/VAPID_PRIVATE_KEY are not set; push subscriptions will not survive a restart");
+      vapidKeys = webpush.generateVAPIDKeys();
+    }
+  }
+  return vapidKeys;
+}
+
+export function getVapidPublicKey(): string {
+  return getVapidKeys().publicKey;
+}
+
+// Production: encrypt and deliver through the browser vendor's push service
+export class WebPushService implements PushService {
+  async send(subscription: PushSubscription, payload: PushPayload): Promise<void> {
+    const { publicKey, privateKey } = getVapidKeys();
+
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        JSON.stringify(payload),
+        {
+          TTL: PUSH_TTL_SECONDS,
+          urgency: payload.severity === 'warning' ? 'high' : 'normal',
+          vapidDetails: {
+            subject: process.env.VAPID_SUBJECT || 'mailto:alerts@disastertrack.local',
+            publicKey,
+            privateKey,
+          },
+        }
+      );
+    } catch (error) {
+      // 404 and 410 mean the user revoked permission or the browser dropped the subscription
+      if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+        throw new PermanentDeliveryError(`Push subscription expired (${error.statusCode})`);
+      }
+      throw error;
+    }
+  }
+}
+
+// Development and tests: stand in for the push service and keep messages in memory.
+// Endpoints passed to expire() then behave like revoked subscriptions.
+export class LocalPushService implements PushService {
+  messages: { endpoint: string, payload: PushPayload, sentAt: Date }[] = [];
+  private expired = new Set<string>();
+
+  expire(endpoint: string) {
+    this.expired.add(endpoint);
+  }
+
+  async send(subscription: PushSubscription, payload: PushPayload): Promise<void> {
+    if (this.expired.has(subscription.endpoint)) {
+      throw new PermanentDeliveryError('Push subscription expired (410)');
+    }
+    this.messages.push({ endpoint: subscription.endpoint, payload, sentAt: new Date() });
+    log(`to ${subscription.endpoint}: ${payload.title}`, 'push');
+  }
+}
+
+export function createPushService(): PushService {
+  return process.env.PUSH_SERVICE === 'local' ? new LocalPushService() : new WebPushService();
+}
+
+let service: PushService | undefined;
+
+// Swap the service, e.g. to inspect messages in tests
+export function setPushService(next: PushService) {
+  service = next;
+}
+
+// Every browser the user has enabled push on gets its own delivery
+export const pushChannel: NotificationChannel = {
+  name: 'push',
+
+  async getRecipients(user) {
+    const subscriptions = await storage.getPushSubscriptions(user.id);
+    return subscriptions.map(subscription => subscription.endpoint);
+  },
+
+  async send(recipient, notification) {
+    const subscription = await storage.getPushSubscriptionByEndpoint(recipient);
+    if (!subscription) {
+      throw new PermanentDeliveryError('Push subscription was removed');
+    }
+
+    service ??= createPushService();
+    try {
+      await service.send(subscription, renderAlertPush(notification));
+    } catch (error) {
+      if (error instanceof PermanentDeliveryError) {
+        await storage.deletePushSubscription(subscription.id);
+      }
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,99 @@
+import axios from 'axios';
+import { z } from 'zod';
+import { NotificationChannel } from './types';
+import { renderAlertSms } from './templates';
+import { log } from '../vite';
+
+export interface SmsProvider {
+  send(to: string, body: string): Promise<void>;
+}
+
+// Production: Twilio's Messages REST API
+export class TwilioSmsProvider implements SmsProvider {
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private from: string
+  ) {}
+
+  async send(to: string, body: string): Promise<void> {
+    try {
+      await axios.post(
+        `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+        new URLSearchParams({ To: to, From: this.from, Body: body }),
+        { auth: { username: this.accountSid, password: this.authToken } }
+      );
+    } catch (error) {
+      // Surface Twilio's own explanation, e.g. "The 'To' number is not a valid phone number"
+      if (axios.isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(`Twilio: ${error.response.data.message}`);
+      }
+      throw error;
+    }
+  }
+}
+
+// Development and tests: keep sent messages in memory instead of sending them
+export class FakeSmsProvider implements SmsProvider {
+  messages: { to: string, body: string, sentAt: Date }[] = [];
+
+  async send(to: string, body: string): Promise<void> {
+    this.messages.push({ to, body, sentAt: new Date() });
+    log(`to ${to}: ${body}`, 'sms');
+  }
+}
+
+export function createSmsProvider(): SmsProvider {
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER } = process.env;
+
+  if (TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_FROM_NUMBER) {
+    return new TwilioSmsProvider(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER);
+  }
+  return new FakeSmsProvider();
+}
+
+let provider: SmsProvider | undefined;
+
+export function getSmsProvider(): SmsProvider {
+  provider ??= createSmsProvider();
+  return provider;
+}
+
+// Swap the provider, e.g. to inspect messages in tests
+export function setSmsProvider(next: SmsProvider) {
+  provider = next;
+}
+
+// Normalize to E.164. Ten-digit numbers without a country code are taken as US.
+export function normalizePhoneNumber(input: string): string | null {
+  const digits = input.replace(/\D/g, '');
+
+  if (input.trim().startsWith('+')) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  }
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return null;
+}
+
+export const phoneNumberSchema = z.string().transform((value, ctx) => {
+  const phone = normalizePhoneNumber(value);
+  if (!phone) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Enter a valid phone number, including the country code if outside the US' });
+    return z.NEVER;
+  }
+  return phone;
+});
+
+// Only verified numbers receive alerts, so a typo never texts a stranger
+export const smsChannel: NotificationChannel = {
+  name: 'sms',
+
+  async getRecipients(user, preferences) {
+    return preferences.smsNotifications && user.phone && user.phoneVerified ? [user.phone] : [];
+  },
+
+  async send(recipient, notification) {
+    await getSmsProvider().send(recipient, renderAlertSms(notification));
+  },
+};
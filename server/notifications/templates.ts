@@ -0,0 +1,141 @@
+import { AlertNotification } from './types';
+
+interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export function renderAlertEmail({ alert, disaster, link }: AlertNotification): RenderedEmail {
+  const severity = capitalize(alert.alertType);
+  const distance = formatDistance(alert.distance, alert.location);
+  const expires = disaster?.validUntil ? disaster.validUntil.toUTCString() : 'No expiry given';
+  const description = disaster?.description ?? '';
+
+  const subject = `[${severity}] ${alert.message} near ${alert.location}`;
+
+  const text = [
+    `${severity}: ${alert.message}`,
+    '',
+    `Distance: ${distance}`,
+    `Expires: ${expires}`,
+    ...(description ? ['', description] : []),
+    '',
+    `View details: ${link}`,
+    '',
+    'You are receiving this because email alerts are enabled in your DisasterTrack settings.',
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #111827; margin: 0; padding: 24px; background: #f3f4f6;">
+    <div style="max-width: 560px; margin: 0 auto; background: #ffffff; border-radius: 8px; overflow: hidden;">
+      <div style="background: ${severityColor(alert.alertType)}; color: #ffffff; padding: 16px 24px; font-weight: bold;">
+        ${escapeHtml(severity)}
+      </div>
+      <div style="padding: 24px;">
+        <h1 style="font-size: 20px; margin: 0 0 16px;">${escapeHtml(alert.message)}</h1>
+        <table style="font-size: 14px; margin-bottom: 16px;">
+          <tr><td style="color: #6b7280; padding-right: 16px;">Distance</td><td>${escapeHtml(distance)}</td></tr>
+          <tr><td style="color: #6b7280; padding-right: 16px;">Expires</td><td>${escapeHtml(expires)}</td></tr>
+        </table>
+        ${description ? `<p style="font-size: 14px; line-height: 1.5;">${escapeHtml(description)}</p>` : ''}
+        <a href="${escapeHtml(link)}" style="display: inline-block; background: #2563eb; color: #ffffff; padding: 10px 16px; border-radius: 6px; text-decoration: none;">
+          View details
+        </a>
+      </div>
+    </div>
+    <p style="max-width: 560px; margin: 16px auto 0; font-size: 12px; color: #6b7280;">
+      You are receiving this because email alerts are enabled in your DisasterTrack settings.
+    </p>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+// Data the service worker turns into a system notification (see client/public/sw.js)
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  tag: string; // later pushes for the same disaster replace the earlier notification
+  severity: string;
+}
+
+export function renderAlertPush({ alert, disaster, link }: AlertNotification): PushPayload {
+  const expires = disaster?.validUntil ? ` Expires ${disaster.validUntil.toUTCString()}.` : '';
+
+  return {
+    title: `${capitalize(alert.alertType)}: ${alert.message}`,
+    body: `${formatDistance(alert.distance, alert.location)}.${expires}`,
+    url: link,
+    tag: alert.externalId ?? `alert-${alert.id}`,
+    severity: alert.alertType,
+  };
+}
+
+// A single SMS segment holds 160 GSM-7 characters; anything longer is split
+// and billed as several messages
+export const SMS_SEGMENT_LENGTH = 160;
+
+// Severity, title, distance and link, shortening the title to stay in one segment
+export function renderAlertSms({ alert, link }: AlertNotification): string {
+  const prefix = `DisasterTrack ${capitalize(alert.alertType)}: `;
+  const suffix = ` - ${formatDistance(alert.distance, alert.location)}`;
+  const title = toGsm7(alert.message);
+
+  // Drop the link rather than the alert itself if the two can't share a segment
+  for (const tail of [`${suffix} ${link}`, suffix, '']) {
+    const budget = SMS_SEGMENT_LENGTH - prefix.length - toGsm7(tail).length;
+    if (budget >= 20) {
+      return `${prefix}${truncate(title, budget)}${toGsm7(tail)}`;
+    }
+  }
+  return truncate(`${prefix}${title}`, SMS_SEGMENT_LENGTH);
+}
+
+// Characters outside GSM-7 force UCS-2 encoding, which cuts a segment to 70
+// characters, so fold accents away and drop anything else
+function toGsm7(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[^\x20-\x7e\n]/g, '')
+    .replace(/[\[\]{}\\^~|`]/g, '');
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length <= maxLength ? value : `${value.slice(0, maxLength - 3).trimEnd()}...`;
+}
+
+export function formatDistance(distance: number | null, locationName: string): string {
+  return distance === null
+    ? `Near ${locationName}`
+    : `${distance.toFixed(1)} km from ${locationName}`;
+}
+
+function severityColor(alertType: string): string {
+  switch (alertType) {
+    case 'warning': return '#ef4444';
+    case 'watch': return '#f59e0b';
+    case 'advisory': return '#22c55e';
+    default: return '#3b82f6';
+  }
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,24 @@
+import { AlertHistory, Disaster, User, UserPreferences } from '@shared/schema';
+
+// Everything a channel needs to render one alert for one user
+export interface AlertNotification {
+  alert: AlertHistory;
+  user: User;
+  disaster?: Disaster; // missing if the disaster has since been removed
+  link: string; // page in the app showing the disaster
+}
+
+export interface NotificationChannel {
+  name: string;
+  // Addresses to notify; empty when the user has this channel turned off
+  getRecipients(user: User, preferences: UserPreferences): Promise<string[]>;
+  send(recipient: string, notification: AlertNotification): Promise<void>;
+}
+
+// Thrown by a channel when retrying can never succeed, e.g. the recipient is gone
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentDeliveryError';
+  }
+}
@@ -0,0 +1,99 @@
+import type { Express, Request, Response } from "express";
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { requireAuth, toUserResponse } from "./auth";
+import { getSmsProvider } from "./notifications/sms";
+
+const CODE_LENGTH = 6;
+const CODE_TTL_MS = 10 * 60 * 1000;
+const RESEND_INTERVAL_MS = 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+const verifySchema = z.object({
+  code: z.string().regex(new RegExp(`^\\d{${CODE_LENGTH}}$`), `Enter the ${CODE_LENGTH}-digit code`),
+});
+
+// Codes are bound to the user and number they were sent for
+function hashCode(userId: number, phone: string, code: string): string {
+  return createHash("sha256").update(`${userId}:${phone}:${code}`).digest("hex");
+}
+
+// Confirms the logged-in user's phone number with a one-time code sent by SMS
+export function setupPhoneVerification(app: Express) {
+  app.post("/api/auth/phone/send-code", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const user = req.user!;
+
+      if (!user.phone) {
+        return res.status(400).json({ message: 'Add a phone number before verifying it' });
+      }
+      if (user.phoneVerified) {
+        return res.status(409).json({ message: 'Phone number is already verified' });
+      }
+
+      const pending = await storage.getPhoneVerification(user.id);
+      if (pending && pending.phone === user.phone && Date.now() - pending.createdAt.getTime() < RESEND_INTERVAL_MS) {
+        return res.status(429).json({ message: 'Please wait a minute before requesting another code' });
+      }
+
+      const code = randomInt(0, 10 ** CODE_LENGTH).toString().padStart(CODE_LENGTH, '0');
+      await storage.upsertPhoneVerification({
+        userId: user.id,
+        phone: user.phone,
+        codeHash: hashCode(user.id, user.phone, code),
+        expiresAt: new Date(Date.now() + CODE_TTL_MS),
+        attempts: 0,
+      });
+
+      await getSmsProvider().send(
+        user.phone,
+        `Your DisasterTrack verification code is ${code}. It expires in ${CODE_TTL_MS / 60000} minutes.`
+      );
+
+      res.json({ message: 'Verification code sent', expiresInSeconds: CODE_TTL_MS / 1000 });
+    } catch (error) {
+      console.error('Error in POST /api/auth/phone/send-code:', error);
+      res.status(500).json({ message: 'Failed to send verification code' });
+    }
+  });
+
+  app.post("/api/auth/phone/verify", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parseResult = verifySchema.safeParse(req.body);
+
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: 'Invalid verification code',
+          errors: parseResult.error.errors
+        });
+      }
+
+      const user = req.user!;
+      const pending = await storage.getPhoneVerification(user.id);
+
+      // A code sent to a number the user has since changed is no longer valid
+      if (!pending || pending.phone !== user.phone || pending.expiresAt <= new Date()) {
+        return res.status(400).json({ message: 'Verification code has expired; request a new one' });
+      }
+      if (pending.attempts >= MAX_ATTEMPTS) {
+        return res.status(429).json({ message: 'Too many incorrect codes; request a new one' });
+      }
+
+      const expected = Buffer.from(pending.codeHash, "hex");
+      const supplied = Buffer.from(hashCode(user.id, pending.phone, parseResult.data.code), "hex");
+
+      if (!timingSafeEqual(expected, supplied)) {
+        await storage.upsertPhoneVerification({ ...pending, attempts: pending.attempts + 1 });
+        return res.status(400).json({ message: 'Incorrect verification code' });
+      }
+
+      await storage.deletePhoneVerification(user.id);
+      const updated = await storage.updateUser(user.id, { phoneVerified: true });
+      res.json(toUserResponse(updated!));
+    } catch (error) {
+      console.error('Error in POST /api/auth/phone/verify:', error);
+      res.status(500).json({ message: 'Failed to verify phone number' });
+    }
+  });
+}
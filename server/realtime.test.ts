@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { Disaster } from '@shared/schema';
+import { REALTIME_PATH, type RealtimeServerMessage } from '@shared/realtime';
+import { publishDisaster, setupRealtime } from './realtime';
+
+let server: Server;
+let url: string;
+
+beforeAll(async () => {
+  server = createServer();
+  setupRealtime(server);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  url = `ws://localhost:${(server.address() as AddressInfo).port}${REALTIME_PATH}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const warning: Disaster = {
+  id: 1,
+  externalId: 'noaa-1',
+  disasterType: 'flood',
+  alertType: 'warning',
+  title: 'Flood Warning',
+  description: 'Flooding is occurring',
+  location: 'Polk County',
+  latitude: '41.6',
+  longitude: '-93.6',
+  source: 'NOAA',
+  timestamp: new Date(),
+  validUntil: new Date(Date.now() + 60 * 60 * 1000),
+  geometry: null,
+  data: null,
+};
+
+// A client subscribed to warnings only, collecting what it is sent
+async function warningSubscriber() {
+  const ws = new WebSocket(url);
+  const messages: RealtimeServerMessage<Disaster>[] = [];
+  ws.on('message', raw => messages.push(JSON.parse(raw.toString())));
+  await new Promise(resolve => ws.on('open', resolve));
+
+  ws.send(JSON.stringify({ type: 'subscribe', id: 'warnings', filters: { alertTypes: ['warning'] } }));
+  await new Promise(resolve => setTimeout(resolve, 50));
+  return { ws, messages };
+}
+
+const received = () => new Promise(resolve => setTimeout(resolve, 50));
+
+describe('publishDisaster', () => {
+  it('sends updates that still match the subscription', async () => {
+    const { ws, messages } = await warningSubscriber();
+
+    publishDisaster('updated', { ...warning, title: 'Flood Warning (extended)' }, warning);
+    await received();
+
+    expect(messages).toMatchObject([{ type: 'disaster', event: 'updated', subscriptions: ['warnings'] }]);
+    ws.close();
+  });
+
+  it('tells subscribers when an update means the disaster no longer matches', async () => {
+    const { ws, messages } = await warningSubscriber();
+
+    publishDisaster('updated', { ...warning, alertType: 'advisory', title: 'Flood Advisory' }, warning);
+    await received();
+
+    expect(messages).toMatchObject([{ type: 'disaster', event: 'removed', disaster: { id: 1 }, subscriptions: ['warnings'] }]);
+    ws.close();
+  });
+
+  it('sends nothing for disasters that never matched', async () => {
+    const { ws, messages } = await warningSubscriber();
+    const advisory = { ...warning, alertType: 'advisory' };
+
+    publishDisaster('updated', { ...advisory, title: 'Flood Advisory (extended)' }, advisory);
+    await received();
+
+    expect(messages).toEqual([]);
+    ws.close();
+  });
+});
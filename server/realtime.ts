@@ -0,0 +1,148 @@
+import type { Server, IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { Disaster } from '@shared/schema';
+import {
+  REALTIME_PATH,
+  realtimeClientMessageSchema,
+  type DisasterEvent,
+  type DisasterSubscription,
+  type RealtimeServerMessage,
+} from '@shared/realtime';
+import { storage } from './storage';
+import { isInTimeRange, matchesDisasterFilters } from './api';
+import { dispatchWebhooks } from './webhooks';
+import { log } from './vite';
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const EXPIRY_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Subscriptions held by each open socket, keyed by the client's subscription id
+const clients = new Map<WebSocket, Map<string, DisasterSubscription>>();
+
+// Attach the live disaster feed to the API's HTTP server. Upgrades for other
+// paths (e.g. Vite's HMR socket in development) are left to their own handlers.
+export function setupRealtime(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakSet<WebSocket>();
+
+  httpServer.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url || '', 'http://localhost');
+    if (pathname !== REALTIME_PATH) return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+  });
+
+  wss.on('connection', (ws: WebSocket) => {
+    clients.set(ws, new Map());
+    alive.add(ws);
+
+    ws.on('pong', () => alive.add(ws));
+    ws.on('message', (raw) => handleMessage(ws, raw.toString()));
+    ws.on('close', () => clients.delete(ws));
+    ws.on('error', (error) => console.error('WebSocket error:', error));
+  });
+
+  // Drop sockets that stopped answering pings, e.g. after a network change
+  const heartbeat = setInterval(() => {
+    clients.forEach((_subscriptions, ws) => {
+      if (!alive.has(ws)) return ws.terminate();
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const expirySweep = startExpirySweep();
+
+  wss.on('close', () => {
+    clearInterval(heartbeat);
+    clearInterval(expirySweep);
+  });
+}
+
+// Push a disaster event to every socket with a matching subscription. For
+// updates, previous is the version before the change: subscriptions that
+// matched it but not the update are sent a removal instead.
+export function publishDisaster(event: DisasterEvent, disaster: Disaster, previous?: Disaster) {
+  const now = new Date();
+
+  clients.forEach((subscriptions, ws) => {
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    const matched: string[] = [];
+    const unmatched: string[] = [];
+    subscriptions.forEach((filters, id) => {
+      if (matchesSubscription(event, disaster, filters, now)) {
+        matched.push(id);
+      } else if (previous && matchesSubscription(event, previous, filters, now)) {
+        unmatched.push(id);
+      }
+    });
+
+    if (matched.length > 0) {
+      send(ws, { type: 'disaster', event, disaster, subscriptions: matched });
+    }
+    if (unmatched.length > 0) {
+      send(ws, { type: 'disaster', event: 'removed', disaster, subscriptions: unmatched });
+    }
+  });
+}
+
+function matchesSubscription(event: DisasterEvent, disaster: Disaster, filters: DisasterSubscription, now: Date): boolean {
+  // An expired alert is by definition outside every time range, but
+  // subscribers still need to hear about it to drop it from their lists
+  const inRange = event === 'expired' || isInTimeRange(disaster, filters.timeRange, now);
+  return inRange && matchesDisasterFilters(disaster, filters);
+}
+
+function handleMessage(ws: WebSocket, raw: string) {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return send(ws, { type: 'error', message: 'Messages must be JSON' });
+  }
+
+  const parseResult = realtimeClientMessageSchema.safeParse(json);
+  if (!parseResult.success) {
+    return send(ws, { type: 'error', message: 'Invalid message' });
+  }
+
+  const subscriptions = clients.get(ws);
+  if (!subscriptions) return;
+
+  const message = parseResult.data;
+  if (message.type === 'subscribe') {
+    subscriptions.set(message.id, message.filters);
+  } else {
+    subscriptions.delete(message.id);
+  }
+}
+
+function send(ws: WebSocket, message: RealtimeServerMessage<Disaster>) {
+  ws.send(JSON.stringify(message));
+}
+
+// Alerts expire on the clock rather than on ingestion, so watch for validUntil passing
+function startExpirySweep(): NodeJS.Timeout {
+  let lastSweep = new Date();
+
+  return setInterval(async () => {
+    const now = new Date();
+    try {
+      const expired = (await storage.getDisasters()).filter(disaster =>
+        disaster.validUntil && disaster.validUntil > lastSweep && disaster.validUntil <= now
+      );
+      expired.forEach(disaster => {
+        publishDisaster('expired', disaster);
+        void dispatchWebhooks('expired', disaster);
+      });
+      if (expired.length > 0) {
+        log(`${expired.length} disaster(s) expired`, 'realtime');
+      }
+    } catch (error) {
+      console.error('Error sweeping expired disasters:', error);
+    }
+    lastSweep = now;
+  }, EXPIRY_SWEEP_INTERVAL_MS);
+}
@@ -1,42 +1,38 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { getAllDisasters, getDisastersByLocation, getDisasterStats, getLastUpdatedTime } from "./api";
+import { setupAuth, requireAuth } from "./auth";
+import { setupRealtime } from "./realtime";
+import { setupPhoneVerification } from "./phoneVerification";
+import { setupWebhooks } from "./webhooks";
+import { getVapidPublicKey } from "./notifications/push";
+import { getAllDisasters, getDisastersByLocation, getDisasterStats, getLastUpdatedTime, getIncidents, type DisasterFilters } from "./api";
+import { getShakingIntensity } from "./api/usgs";
+import { getTropicalStormWindArrival } from "./api/nhc";
 import { geocodeAddress, reverseGeocode } from "./utils/geocoding";
-import { DisasterType, AlertType } from "./utils/alertUtils";
+import { DisasterType, AlertType, getUserPreferences } from "./utils/alertUtils";
 import { z } from "zod";
-import { insertUserSchema, insertSavedLocationSchema, insertAlertHistorySchema } from "../shared/schema";
+import { matchesHazardTypes } from "../shared/hazards";
+import { insertUserSchema, insertSavedLocationSchema, insertAlertHistorySchema, userPreferencesSchema, disasterTypeValues, alertTypeValues, type SavedLocation } from "../shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // prefix all routes with /api
   const httpServer = createServer(app);
 
+  // Sessions and /api/auth routes
+  setupAuth(app);
+  setupPhoneVerification(app);
+
+  // /api/webhooks registrations and delivery logs
+  setupWebhooks(app);
+
+  // Live disaster events over WebSocket
+  setupRealtime(httpServer);
+
   // Disaster data routes
   app.get("/api/disasters", async (req: Request, res: Response) => {
     try {
-      const types = req.query.types ? 
-        (req.query.types as string).split(',') as DisasterType[] : 
-        undefined;
-      
-      const alertTypes = req.query.alertTypes ? 
-        (req.query.alertTypes as string).split(',') as AlertType[] : 
-        undefined;
-      
-      const timeRange = req.query.timeRange as string | undefined;
-      
-      const latitude = req.query.lat ? parseFloat(req.query.lat as string) : undefined;
-      const longitude = req.query.lon ? parseFloat(req.query.lon as string) : undefined;
-      const radius = req.query.radius ? parseFloat(req.query.radius as string) : 100;
-      
-      const disasters = await getAllDisasters({
-        types,
-        alertTypes,
-        timeRange,
-        latitude,
-        longitude,
-        radius
-      });
-      
+      const disasters = await getAllDisasters(disasterFiltersFromQuery(req));
       res.json(disasters);
     } catch (error) {
       console.error('Error in /api/disasters:', error);
@@ -44,6 +40,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The same disasters, with reports of one event from several sources grouped
+  app.get("/api/incidents", async (req: Request, res: Response) => {
+    try {
+      const incidents = await getIncidents(disasterFiltersFromQuery(req));
+      res.json(incidents);
+    } catch (error) {
+      console.error('Error in /api/incidents:', error);
+      res.status(500).json({ message: 'Failed to fetch incidents' });
+    }
+  });
+
   app.get("/api/disasters/stats", async (req: Request, res: Response) => {
     try {
       const disasters = await getAllDisasters();
@@ -57,7 +64,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/disasters/lastUpdated", async (_req: Request, res: Response) => {
     try {
-      const lastUpdated = getLastUpdatedTime();
+      const lastUpdated = await getLastUpdatedTime();
       res.json(lastUpdated);
     } catch (error) {
       console.error('Error in /api/disasters/lastUpdated:', error);
@@ -67,9 +74,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/disasters/:id", async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-      const disasters = await getAllDisasters();
-      const disaster = disasters.find(d => d.id === id);
+      const disaster = await storage.getDisaster(parseInt(req.params.id));
       
       if (!disaster) {
         return res.status(404).json({ message: 'Disaster not found' });
@@ -82,6 +87,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ShakeMap intensity at a point, e.g. the user's location, for an earthquake
+  app.get("/api/disasters/:id/intensity", async (req: Request, res: Response) => {
+    try {
+      const lat = req.query.lat ? parseFloat(req.query.lat as string) : NaN;
+      const lon = req.query.lon ? parseFloat(req.query.lon as string) : NaN;
+      
+      if (isNaN(lat) || isNaN(lon)) {
+        return res.status(400).json({ message: 'Latitude and longitude are required' });
+      }
+      
+      const disaster = await storage.getDisaster(parseInt(req.params.id));
+      
+      if (!disaster) {
+        return res.status(404).json({ message: 'Disaster not found' });
+      }
+      
+      const mmi = await getShakingIntensity(disaster, lat, lon);
+      res.json({ mmi });
+    } catch (error) {
+      console.error(`Error in /api/disasters/${req.params.id}/intensity:`, error);
+      res.status(500).json({ message: 'Failed to get shaking intensity' });
+    }
+  });
+
+  // When tropical-storm-force winds are forecast to reach a point, for a tropical cyclone
+  app.get("/api/disasters/:id/wind-arrival", async (req: Request, res: Response) => {
+    try {
+      const lat = req.query.lat ? parseFloat(req.query.lat as string) : NaN;
+      const lon = req.query.lon ? parseFloat(req.query.lon as string) : NaN;
+      
+      if (isNaN(lat) || isNaN(lon)) {
+        return res.status(400).json({ message: 'Latitude and longitude are required' });
+      }
+      
+      const disaster = await storage.getDisaster(parseInt(req.params.id));
+      
+      if (!disaster) {
+        return res.status(404).json({ message: 'Disaster not found' });
+      }
+      
+      const arrival = getTropicalStormWindArrival(disaster, lat, lon);
+      res.json({ arrival: arrival?.toISOString() ?? null });
+    } catch (error) {
+      console.error(`Error in /api/disasters/${req.params.id}/wind-arrival:`, error);
+      res.status(500).json({ message: 'Failed to get wind arrival time' });
+    }
+  });
+
   // Geocoding routes
   app.get("/api/geocode", async (req: Request, res: Response) => {
     try {
@@ -213,6 +266,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
           icon: "local_fire_department",
           url: "https://www.ready.gov/wildfires"
         },
+        {
+          id: "guide7",
+          title: "Volcano Safety",
+          description: "Protecting yourself from ashfall, lava and mudflows, and when to evacuate.",
+          disasterType: DisasterType.Volcano,
+          icon: "volcano",
+          url: "https://www.ready.gov/volcanoes"
+        },
+        {
+          id: "guide8",
+          title: "Hurricane Preparedness",
+          description: "Knowing your evacuation zone, securing your home and riding out the storm.",
+          disasterType: DisasterType.Hurricane,
+          icon: "cyclone",
+          url: "https://www.ready.gov/hurricanes"
+        },
+        {
+          id: "guide9",
+          title: "Tornado Safety",
+          description: "Where to shelter when a tornado warning is issued, at home or on the road.",
+          disasterType: DisasterType.Tornado,
+          icon: "tornado",
+          url: "https://www.ready.gov/tornadoes"
+        },
+        {
+          id: "guide10",
+          title: "Winter Weather",
+          description: "Staying warm and safe through snowstorms, ice and extreme cold.",
+          disasterType: DisasterType.WinterStorm,
+          icon: "ac_unit",
+          url: "https://www.ready.gov/winter-weather"
+        },
+        {
+          id: "guide11",
+          title: "Extreme Heat",
+          description: "Recognizing heat illness and keeping cool during heat waves.",
+          disasterType: DisasterType.Heat,
+          icon: "thermostat",
+          url: "https://www.ready.gov/heat"
+        },
         {
           id: "guide5",
           title: "Home Emergency Kit",
@@ -231,9 +324,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       ];
       
-      // Filter by disaster type if specified
+      // Filter by disaster type if specified; a subtype also gets its category's guides
       const filteredGuides = disasterType 
-        ? guides.filter(g => g.disasterType === disasterType)
+        ? guides.filter(g => matchesHazardTypes(disasterType, [g.disasterType]))
         : guides;
       
       res.json(filteredGuides);
@@ -244,84 +337,197 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User preference routes
-  app.get("/api/preferences", async (req: Request, res: Response) => {
+  app.get("/api/preferences", requireAuth, async (req: Request, res: Response) => {
     try {
-      // Mock preferences (would come from database in production)
-      const preferences = {
-        emergencyWarnings: true,
-        watchesAdvisories: true,
-        smsNotifications: false,
-        emailAlerts: true,
-        disasterTypes: [
-          DisasterType.Earthquake, 
-          DisasterType.Storm, 
-          DisasterType.Flood, 
-          DisasterType.Wildfire
-        ],
-        notificationRadius: 50
-      };
-      
-      res.json(preferences);
+      res.json(getUserPreferences(req.user!));
     } catch (error) {
       console.error('Error in /api/preferences:', error);
       res.status(500).json({ message: 'Failed to fetch preferences' });
     }
   });
 
-  app.post("/api/preferences", async (req: Request, res: Response) => {
+  // POST replaces the whole preferences object, PATCH merges a subset of fields
+  app.post("/api/preferences", requireAuth, async (req: Request, res: Response) => {
     try {
-      const preferences = req.body;
+      const parseResult = userPreferencesSchema.safeParse(req.body);
       
-      // Validate preferences (basic validation)
-      if (typeof preferences !== 'object' || preferences === null) {
-        return res.status(400).json({ message: 'Invalid preferences format' });
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid preferences format',
+          errors: parseResult.error.errors
+        });
       }
       
-      // In a real app, save preferences to database
-      // await storage.saveUserPreferences(userId, preferences)
-      
-      res.json({ message: 'Preferences saved successfully' });
+      const user = await storage.updateUser(req.user!.id, { preferences: parseResult.data });
+      res.json(getUserPreferences(user!));
     } catch (error) {
       console.error('Error in POST /api/preferences:', error);
       res.status(500).json({ message: 'Failed to save preferences' });
     }
   });
 
+  app.patch("/api/preferences", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parseResult = userPreferencesSchema.partial().safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid preferences format',
+          errors: parseResult.error.errors
+        });
+      }
+      
+      const preferences = { ...getUserPreferences(req.user!), ...parseResult.data };
+      const user = await storage.updateUser(req.user!.id, { preferences });
+      res.json(getUserPreferences(user!));
+    } catch (error) {
+      console.error('Error in PATCH /api/preferences:', error);
+      res.status(500).json({ message: 'Failed to update preferences' });
+    }
+  });
+
+  // Alert history inbox: the alerts the engine actually sent to this user
+  app.get("/api/alerts/history", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parseResult = alertHistoryQuerySchema.safeParse(req.query);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid alert history query',
+          errors: parseResult.error.errors
+        });
+      }
+      
+      const { page, pageSize, unread, types, alertTypes } = parseResult.data;
+      const history = await storage.getAlertHistory(req.user!.id);
+      
+      const filtered = history.filter(alert => 
+        (!unread || !alert.read) &&
+        (!types || matchesHazardTypes(alert.disasterType, types)) &&
+        (!alertTypes || alertTypes.includes(alert.alertType as AlertType))
+      );
+      
+      res.json({
+        alerts: filtered.slice((page - 1) * pageSize, page * pageSize),
+        total: filtered.length,
+        page,
+        pageSize,
+        unreadCount: history.filter(alert => !alert.read).length
+      });
+    } catch (error) {
+      console.error('Error in /api/alerts/history:', error);
+      res.status(500).json({ message: 'Failed to fetch alert history' });
+    }
+  });
+
+  app.get("/api/alerts/history/unread-count", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const history = await storage.getAlertHistory(req.user!.id);
+      res.json({ count: history.filter(alert => !alert.read).length });
+    } catch (error) {
+      console.error('Error in /api/alerts/history/unread-count:', error);
+      res.status(500).json({ message: 'Failed to fetch unread count' });
+    }
+  });
+
+  app.post("/api/alerts/history/read-all", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const updated = await storage.markAlertsRead(req.user!.id);
+      res.json({ updated });
+    } catch (error) {
+      console.error('Error in POST /api/alerts/history/read-all:', error);
+      res.status(500).json({ message: 'Failed to mark alerts as read' });
+    }
+  });
+
+  app.post("/api/alerts/history/:id/read", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const alert = await storage.getAlert(id);
+      
+      if (!alert || alert.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'Alert not found' });
+      }
+      
+      const updated = await storage.updateAlert(id, { read: true });
+      res.json(updated);
+    } catch (error) {
+      console.error(`Error in POST /api/alerts/history/${req.params.id}/read:`, error);
+      res.status(500).json({ message: 'Failed to mark alert as read' });
+    }
+  });
+
+  // Web Push subscription routes
+  app.get("/api/push/public-key", (_req: Request, res: Response) => {
+    res.json({ publicKey: getVapidPublicKey() });
+  });
+
+  app.post("/api/push/subscriptions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parseResult = pushSubscriptionSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid push subscription',
+          errors: parseResult.error.errors
+        });
+      }
+      
+      const { endpoint, keys } = parseResult.data;
+      const subscription = await storage.upsertPushSubscription({
+        userId: req.user!.id,
+        endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth
+      });
+      
+      res.status(201).json({ id: subscription.id, endpoint: subscription.endpoint });
+    } catch (error) {
+      console.error('Error in POST /api/push/subscriptions:', error);
+      res.status(500).json({ message: 'Failed to save push subscription' });
+    }
+  });
+
+  app.delete("/api/push/subscriptions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parseResult = pushSubscriptionSchema.pick({ endpoint: true }).safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid push subscription',
+          errors: parseResult.error.errors
+        });
+      }
+      
+      const subscription = await storage.getPushSubscriptionByEndpoint(parseResult.data.endpoint);
+      
+      if (!subscription || subscription.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'Push subscription not found' });
+      }
+      
+      await storage.deletePushSubscription(subscription.id);
+      res.json({ message: 'Push subscription removed' });
+    } catch (error) {
+      console.error('Error in DELETE /api/push/subscriptions:', error);
+      res.status(500).json({ message: 'Failed to remove push subscription' });
+    }
+  });
+
   // Saved locations routes
-  app.get("/api/locations", async (req: Request, res: Response) => {
+  app.get("/api/locations", requireAuth, async (req: Request, res: Response) => {
     try {
-      // Mock saved locations (would come from database in production)
-      const locations = [
-        {
-          id: "loc1",
-          name: "Home",
-          latitude: 37.7749,
-          longitude: -122.4194
-        },
-        {
-          id: "loc2",
-          name: "Work",
-          latitude: 37.7895,
-          longitude: -122.3988
-        }
-      ];
+      const userId = req.user!.id;
+      const locations = await storage.getSavedLocations(userId);
       
-      res.json(locations);
+      res.json(locations.map(toLocationResponse));
     } catch (error) {
       console.error('Error in /api/locations:', error);
       res.status(500).json({ message: 'Failed to fetch saved locations' });
     }
   });
 
-  app.post("/api/locations", async (req: Request, res: Response) => {
+  app.post("/api/locations", requireAuth, async (req: Request, res: Response) => {
     try {
-      // Validate the request body
-      const locationSchema = z.object({
-        name: z.string().min(1),
-        latitude: z.number(),
-        longitude: z.number()
-      });
-      
       const parseResult = locationSchema.safeParse(req.body);
       
       if (!parseResult.success) {
@@ -331,27 +537,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const location = parseResult.data;
+      const userId = req.user!.id;
+      const existing = await storage.getSavedLocations(userId);
+      const duplicate = findDuplicateLocation(existing, parseResult.data);
       
-      // In a real app, save location to database
-      // await storage.saveUserLocation(userId, location)
+      if (duplicate) {
+        return res.status(409).json({ message: duplicate });
+      }
+      
+      const { name, latitude, longitude } = parseResult.data;
+      const position = existing.reduce((max, loc) => Math.max(max, loc.position + 1), 0);
       
-      res.json({ 
-        message: 'Location saved successfully',
-        id: `loc${Date.now()}` // Generate a mock ID
+      const location = await storage.createSavedLocation({
+        userId,
+        name: name.trim(),
+        latitude: latitude.toString(),
+        longitude: longitude.toString(),
+        position
       });
+      
+      res.status(201).json(toLocationResponse(location));
     } catch (error) {
       console.error('Error in POST /api/locations:', error);
       res.status(500).json({ message: 'Failed to save location' });
     }
   });
 
-  app.delete("/api/locations/:id", async (req: Request, res: Response) => {
+  app.put("/api/locations/order", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
+      const parseResult = z.object({ ids: z.array(z.number().int()) }).safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid location order',
+          errors: parseResult.error.errors
+        });
+      }
       
-      // In a real app, delete location from database
-      // await storage.deleteUserLocation(userId, id)
+      const { ids } = parseResult.data;
+      const userId = req.user!.id;
+      const existing = await storage.getSavedLocations(userId);
+      
+      // The new order must mention every saved location exactly once
+      const existingIds = new Set(existing.map(loc => loc.id));
+      if (ids.length !== existingIds.size || new Set(ids).size !== ids.length || 
+          !ids.every(id => existingIds.has(id))) {
+        return res.status(400).json({ message: 'Order must list each saved location exactly once' });
+      }
+      
+      await Promise.all(ids.map((id, position) => storage.updateSavedLocation(id, { position })));
+      
+      const locations = await storage.getSavedLocations(userId);
+      res.json(locations.map(toLocationResponse));
+    } catch (error) {
+      console.error('Error in PUT /api/locations/order:', error);
+      res.status(500).json({ message: 'Failed to reorder locations' });
+    }
+  });
+
+  app.patch("/api/locations/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parseResult = locationSchema.partial().safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid location data',
+          errors: parseResult.error.errors
+        });
+      }
+      
+      const userId = req.user!.id;
+      const location = await storage.getSavedLocation(id);
+      
+      if (!location || location.userId !== userId) {
+        return res.status(404).json({ message: 'Location not found' });
+      }
+      
+      const { name, latitude, longitude } = parseResult.data;
+      const updated = {
+        name: name?.trim() ?? location.name,
+        latitude: latitude ?? parseFloat(location.latitude),
+        longitude: longitude ?? parseFloat(location.longitude)
+      };
+      
+      const others = (await storage.getSavedLocations(userId)).filter(loc => loc.id !== id);
+      const duplicate = findDuplicateLocation(others, updated);
+      
+      if (duplicate) {
+        return res.status(409).json({ message: duplicate });
+      }
+      
+      const saved = await storage.updateSavedLocation(id, {
+        name: updated.name,
+        latitude: updated.latitude.toString(),
+        longitude: updated.longitude.toString()
+      });
+      
+      res.json(toLocationResponse(saved!));
+    } catch (error) {
+      console.error(`Error in PATCH /api/locations/${req.params.id}:`, error);
+      res.status(500).json({ message: 'Failed to update location' });
+    }
+  });
+
+  app.delete("/api/locations/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = req.user!.id;
+      const location = await storage.getSavedLocation(id);
+      
+      if (!location || location.userId !== userId) {
+        return res.status(404).json({ message: 'Location not found' });
+      }
+      
+      await storage.deleteSavedLocation(id);
       
       res.json({ message: 'Location deleted successfully' });
     } catch (error) {
@@ -362,3 +662,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   return httpServer;
 }
+
+// Filters for the disaster list routes; radius defaults to 100 km around lat/lon
+function disasterFiltersFromQuery(req: Request): DisasterFilters {
+  return {
+    types: req.query.types ? (req.query.types as string).split(',') as DisasterType[] : undefined,
+    alertTypes: req.query.alertTypes ? (req.query.alertTypes as string).split(',') as AlertType[] : undefined,
+    timeRange: req.query.timeRange as string | undefined,
+    latitude: req.query.lat ? parseFloat(req.query.lat as string) : undefined,
+    longitude: req.query.lon ? parseFloat(req.query.lon as string) : undefined,
+    radius: req.query.radius ? parseFloat(req.query.radius as string) : 100,
+  };
+}
+
+// Comma-separated list query parameter, e.g. ?types=earthquake,flood
+const csvParam = <T extends readonly [string, ...string[]]>(values: T) =>
+  z.string().transform(value => value.split(',')).pipe(z.array(z.enum(values)).min(1)).optional();
+
+const alertHistoryQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  unread: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  types: csvParam(disasterTypeValues),
+  alertTypes: csvParam(alertTypeValues)
+});
+
+// PushSubscription.toJSON() as sent by the browser
+const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1)
+  })
+});
+
+// Request body for creating or updating a saved location
+const locationSchema = z.object({
+  name: z.string().trim().min(1),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180)
+});
+
+// Two saved locations closer than this (in degrees, ~10m) count as the same place
+const DUPLICATE_COORDINATE_TOLERANCE = 0.0001;
+
+// Returns a message describing the conflict, or null if the location is new
+function findDuplicateLocation(
+  existing: SavedLocation[],
+  candidate: { name: string, latitude: number, longitude: number }
+): string | null {
+  const name = candidate.name.trim().toLowerCase();
+  
+  for (const loc of existing) {
+    if (loc.name.trim().toLowerCase() === name) {
+      return `A location named "${loc.name}" already exists`;
+    }
+    
+    if (Math.abs(parseFloat(loc.latitude) - candidate.latitude) < DUPLICATE_COORDINATE_TOLERANCE &&
+        Math.abs(parseFloat(loc.longitude) - candidate.longitude) < DUPLICATE_COORDINATE_TOLERANCE) {
+      return `This place is already saved as "${loc.name}"`;
+    }
+  }
+  
+  return null;
+}
+
+// Coordinates are stored as text; the API exposes them as numbers
+function toLocationResponse(location: SavedLocation) {
+  return {
+    id: location.id,
+    name: location.name,
+    latitude: parseFloat(location.latitude),
+    longitude: parseFloat(location.longitude),
+    position: location.position
+  };
+}
+
@@ -1,23 +1,141 @@
-import { users, type User, type InsertUser } from "@shared/schema";
-
-// modify the interface with any CRUD methods
-// you might need
+import { and, eq, asc, desc } from "drizzle-orm";
+import {
+  users,
+  alertHistory,
+  savedLocations,
+  disasters,
+  notificationDeliveries,
+  pushSubscriptions,
+  webhooks,
+  webhookDeliveries,
+  phoneVerifications,
+  sourceStatus,
+  type User,
+  type InsertUser,
+  type AlertHistory,
+  type InsertAlertHistory,
+  type SavedLocation,
+  type InsertSavedLocation,
+  type Disaster,
+  type InsertDisaster,
+  type NotificationDelivery,
+  type InsertNotificationDelivery,
+  type PushSubscription,
+  type InsertPushSubscription,
+  type Webhook,
+  type InsertWebhook,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type PhoneVerification,
+  type InsertPhoneVerification,
+  type SourceStatus,
+  type InsertSourceStatus,
+} from "@shared/schema";
+import { db, type Database } from "./db";
 
+// CRUD interface shared by the in-memory and Postgres implementations.
+// Updates take a partial row and return undefined when the id is unknown;
+// deletes report whether a row was removed.
 export interface IStorage {
+  // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
+  deleteUser(id: number): Promise<boolean>;
+
+  // Alert history
+  getAlert(id: number): Promise<AlertHistory | undefined>;
+  getAlertHistory(userId: number): Promise<AlertHistory[]>;
+  getAlertsByExternalId(externalId: string): Promise<AlertHistory[]>;
+  createAlert(alert: InsertAlertHistory): Promise<AlertHistory>;
+  updateAlert(id: number, alert: Partial<InsertAlertHistory>): Promise<AlertHistory | undefined>;
+  deleteAlert(id: number): Promise<boolean>;
+  markAlertsRead(userId: number): Promise<number>;
+
+  // Saved locations
+  getSavedLocation(id: number): Promise<SavedLocation | undefined>;
+  getSavedLocations(userId: number): Promise<SavedLocation[]>;
+  createSavedLocation(location: InsertSavedLocation): Promise<SavedLocation>;
+  updateSavedLocation(id: number, location: Partial<InsertSavedLocation>): Promise<SavedLocation | undefined>;
+  deleteSavedLocation(id: number): Promise<boolean>;
+
+  // Disasters
+  getDisaster(id: number): Promise<Disaster | undefined>;
+  getDisasterByExternalId(externalId: string): Promise<Disaster | undefined>;
+  getDisasters(): Promise<Disaster[]>;
+  createDisaster(disaster: InsertDisaster): Promise<Disaster>;
+  updateDisaster(id: number, disaster: Partial<InsertDisaster>): Promise<Disaster | undefined>;
+  deleteDisaster(id: number): Promise<boolean>;
+
+  // Notification deliveries
+  getDelivery(id: number): Promise<NotificationDelivery | undefined>;
+  getDeliveriesForAlert(alertId: number): Promise<NotificationDelivery[]>;
+  getDeliveriesByStatus(status: string): Promise<NotificationDelivery[]>;
+  createDelivery(delivery: InsertNotificationDelivery): Promise<NotificationDelivery>;
+  updateDelivery(id: number, delivery: Partial<InsertNotificationDelivery>): Promise<NotificationDelivery | undefined>;
+
+  // Push subscriptions
+  getPushSubscriptions(userId: number): Promise<PushSubscription[]>;
+  getPushSubscriptionByEndpoint(endpoint: string): Promise<PushSubscription | undefined>;
+  upsertPushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription>;
+  deletePushSubscription(id: number): Promise<boolean>;
+
+  // Webhooks; deleting a webhook also deletes its delivery log
+  getWebhook(id: number): Promise<Webhook | undefined>;
+  getWebhooks(userId: number): Promise<Webhook[]>;
+  getActiveWebhooks(): Promise<Webhook[]>;
+  createWebhook(webhook: InsertWebhook): Promise<Webhook>;
+  updateWebhook(id: number, webhook: Partial<InsertWebhook>): Promise<Webhook | undefined>;
+  deleteWebhook(id: number): Promise<boolean>;
+
+  // Webhook deliveries, newest first
+  getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]>;
+  getWebhookDeliveriesByStatus(status: string): Promise<WebhookDelivery[]>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: number, delivery: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
+
+  // Phone verifications, at most one pending per user
+  getPhoneVerification(userId: number): Promise<PhoneVerification | undefined>;
+  upsertPhoneVerification(verification: InsertPhoneVerification): Promise<PhoneVerification>;
+  deletePhoneVerification(userId: number): Promise<boolean>;
+
+  // Source status
+  getSourceStatuses(): Promise<SourceStatus[]>;
+  upsertSourceStatus(status: InsertSourceStatus): Promise<SourceStatus>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private alerts: Map<number, AlertHistory>;
+  private locations: Map<number, SavedLocation>;
+  private disasters: Map<number, Disaster>;
+  private deliveries: Map<number, NotificationDelivery>;
+  private pushSubscriptions: Map<number, PushSubscription>;
+  private webhooks: Map<number, Webhook>;
+  private webhookDeliveries: Map<number, WebhookDelivery>;
+  private phoneVerifications: Map<number, PhoneVerification>;
+  private sourceStatuses: Map<string, SourceStatus>;
   currentId: number;
 
   constructor() {
     this.users = new Map();
+    this.alerts = new Map();
+    this.locations = new Map();
+    this.disasters = new Map();
+    this.deliveries = new Map();
+    this.pushSubscriptions = new Map();
+    this.webhooks = new Map();
+    this.webhookDeliveries = new Map();
+    this.phoneVerifications = new Map();
+    this.sourceStatuses = new Map();
     this.currentId = 1;
   }
 
+  // Users
+
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
   }
@@ -28,12 +146,738 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.email === email,
+    );
+  }
+
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentId++;
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      ...insertUser,
+      id,
+      phone: insertUser.phone ?? null,
+      phoneVerified: insertUser.phoneVerified ?? false,
+      location: insertUser.location ?? null,
+      preferences: insertUser.preferences ?? null,
+    };
     this.users.set(id, user);
     return user;
   }
+
+  async updateUser(id: number, update: Partial<InsertUser>): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+
+    const user: User = { ...existing, ...stripUndefined(update) };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    return this.users.delete(id);
+  }
+
+  // Alert history
+
+  async getAlert(id: number): Promise<AlertHistory | undefined> {
+    return this.alerts.get(id);
+  }
+
+  async getAlertHistory(userId: number): Promise<AlertHistory[]> {
+    return Array.from(this.alerts.values())
+      .filter((alert) => alert.userId === userId)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  async getAlertsByExternalId(externalId: string): Promise<AlertHistory[]> {
+    return Array.from(this.alerts.values()).filter(
+      (alert) => alert.externalId === externalId,
+    );
+  }
+
+  async createAlert(insertAlert: InsertAlertHistory): Promise<AlertHistory> {
+    const id = this.currentId++;
+    const alert: AlertHistory = {
+      ...insertAlert,
+      id,
+      userId: insertAlert.userId ?? null,
+      externalId: insertAlert.externalId ?? null,
+      distance: insertAlert.distance ?? null,
+      timestamp: insertAlert.timestamp ?? new Date(),
+      read: insertAlert.read ?? false,
+    };
+    this.alerts.set(id, alert);
+    return alert;
+  }
+
+  async updateAlert(id: number, update: Partial<InsertAlertHistory>): Promise<AlertHistory | undefined> {
+    const existing = this.alerts.get(id);
+    if (!existing) return undefined;
+
+    const alert: AlertHistory = { ...existing, ...stripUndefined(update) };
+    this.alerts.set(id, alert);
+    return alert;
+  }
+
+  async deleteAlert(id: number): Promise<boolean> {
+    return this.alerts.delete(id);
+  }
+
+  async markAlertsRead(userId: number): Promise<number> {
+    let count = 0;
+    this.alerts.forEach((alert, id) => {
+      if (alert.userId === userId && !alert.read) {
+        this.alerts.set(id, { ...alert, read: true });
+        count++;
+      }
+    });
+    return count;
+  }
+
+  // Saved locations
+
+  async getSavedLocation(id: number): Promise<SavedLocation | undefined> {
+    return this.locations.get(id);
+  }
+
+  async getSavedLocations(userId: number): Promise<SavedLocation[]> {
+    return Array.from(this.locations.values())
+      .filter((location) => location.userId === userId)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async createSavedLocation(insertLocation: InsertSavedLocation): Promise<SavedLocation> {
+    const id = this.currentId++;
+    const location: SavedLocation = {
+      ...insertLocation,
+      id,
+      userId: insertLocation.userId ?? null,
+      position: insertLocation.position ?? 0,
+    };
+    this.locations.set(id, location);
+    return location;
+  }
+
+  async updateSavedLocation(id: number, update: Partial<InsertSavedLocation>): Promise<SavedLocation | undefined> {
+    const existing = this.locations.get(id);
+    if (!existing) return undefined;
+
+    const location: SavedLocation = { ...existing, ...stripUndefined(update) };
+    this.locations.set(id, location);
+    return location;
+  }
+
+  async deleteSavedLocation(id: number): Promise<boolean> {
+    return this.locations.delete(id);
+  }
+
+  // Disasters
+
+  async getDisaster(id: number): Promise<Disaster | undefined> {
+    return this.disasters.get(id);
+  }
+
+  async getDisasterByExternalId(externalId: string): Promise<Disaster | undefined> {
+    return Array.from(this.disasters.values()).find(
+      (disaster) => disaster.externalId === externalId,
+    );
+  }
+
+  async getDisasters(): Promise<Disaster[]> {
+    return Array.from(this.disasters.values())
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  async createDisaster(insertDisaster: InsertDisaster): Promise<Disaster> {
+    const id = this.currentId++;
+    const disaster: Disaster = {
+      ...insertDisaster,
+      id,
+      validUntil: insertDisaster.validUntil ?? null,
+      geometry: insertDisaster.geometry ?? null,
+      data: insertDisaster.data ?? null,
+    };
+    this.disasters.set(id, disaster);
+    return disaster;
+  }
+
+  async updateDisaster(id: number, update: Partial<InsertDisaster>): Promise<Disaster | undefined> {
+    const existing = this.disasters.get(id);
+    if (!existing) return undefined;
+
+    const disaster: Disaster = { ...existing, ...stripUndefined(update) };
+    this.disasters.set(id, disaster);
+    return disaster;
+  }
+
+  async deleteDisaster(id: number): Promise<boolean> {
+    return this.disasters.delete(id);
+  }
+
+  // Notification deliveries
+
+  async getDelivery(id: number): Promise<NotificationDelivery | undefined> {
+    return this.deliveries.get(id);
+  }
+
+  async getDeliveriesForAlert(alertId: number): Promise<NotificationDelivery[]> {
+    return Array.from(this.deliveries.values()).filter(
+      (delivery) => delivery.alertId === alertId,
+    );
+  }
+
+  async getDeliveriesByStatus(status: string): Promise<NotificationDelivery[]> {
+    return Array.from(this.deliveries.values()).filter(
+      (delivery) => delivery.status === status,
+    );
+  }
+
+  async createDelivery(insertDelivery: InsertNotificationDelivery): Promise<NotificationDelivery> {
+    const id = this.currentId++;
+    const delivery: NotificationDelivery = {
+      ...insertDelivery,
+      id,
+      userId: insertDelivery.userId ?? null,
+      status: insertDelivery.status ?? "pending",
+      attempts: insertDelivery.attempts ?? 0,
+      lastError: insertDelivery.lastError ?? null,
+      lastAttemptAt: insertDelivery.lastAttemptAt ?? null,
+      sentAt: insertDelivery.sentAt ?? null,
+      createdAt: new Date(),
+    };
+    this.deliveries.set(id, delivery);
+    return delivery;
+  }
+
+  async updateDelivery(id: number, update: Partial<InsertNotificationDelivery>): Promise<NotificationDelivery | undefined> {
+    const existing = this.deliveries.get(id);
+    if (!existing) return undefined;
+
+    const delivery: NotificationDelivery = { ...existing, ...stripUndefined(update) };
+    this.deliveries.set(id, delivery);
+    return delivery;
+  }
+
+  // Push subscriptions
+
+  async getPushSubscriptions(userId: number): Promise<PushSubscription[]> {
+    return Array.from(this.pushSubscriptions.values()).filter(
+      (subscription) => subscription.userId === userId,
+    );
+  }
+
+  async getPushSubscriptionByEndpoint(endpoint: string): Promise<PushSubscription | undefined> {
+    return Array.from(this.pushSubscriptions.values()).find(
+      (subscription) => subscription.endpoint === endpoint,
+    );
+  }
+
+  // The endpoint identifies the browser, so re-subscribing replaces its keys and owner
+  async upsertPushSubscription(insertSubscription: InsertPushSubscription): Promise<PushSubscription> {
+    const existing = await this.getPushSubscriptionByEndpoint(insertSubscription.endpoint);
+    const subscription: PushSubscription = {
+      ...insertSubscription,
+      id: existing?.id ?? this.currentId++,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    this.pushSubscriptions.set(subscription.id, subscription);
+    return subscription;
+  }
+
+  async deletePushSubscription(id: number): Promise<boolean> {
+    return this.pushSubscriptions.delete(id);
+  }
+
+  // Webhooks
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    return this.webhooks.get(id);
+  }
+
+  async getWebhooks(userId: number): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values()).filter(
+      (webhook) => webhook.userId === userId,
+    );
+  }
+
+  async getActiveWebhooks(): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values()).filter((webhook) => webhook.active);
+  }
+
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const id = this.currentId++;
+    const webhook: Webhook = {
+      ...insertWebhook,
+      id,
+      active: insertWebhook.active ?? true,
+      createdAt: new Date(),
+    };
+    this.webhooks.set(id, webhook);
+    return webhook;
+  }
+
+  async updateWebhook(id: number, update: Partial<InsertWebhook>): Promise<Webhook | undefined> {
+    const existing = this.webhooks.get(id);
+    if (!existing) return undefined;
+
+    const webhook: Webhook = { ...existing, ...stripUndefined(update) };
+    this.webhooks.set(id, webhook);
+    return webhook;
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    Array.from(this.webhookDeliveries.values())
+      .filter((delivery) => delivery.webhookId === id)
+      .forEach((delivery) => this.webhookDeliveries.delete(delivery.id));
+    return this.webhooks.delete(id);
+  }
+
+  // Webhook deliveries
+
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter((delivery) => delivery.webhookId === webhookId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getWebhookDeliveriesByStatus(status: string): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values()).filter(
+      (delivery) => delivery.status === status,
+    );
+  }
+
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const id = this.currentId++;
+    const delivery: WebhookDelivery = {
+      ...insertDelivery,
+      id,
+      status: insertDelivery.status ?? "pending",
+      attempts: insertDelivery.attempts ?? 0,
+      responseStatus: insertDelivery.responseStatus ?? null,
+      lastError: insertDelivery.lastError ?? null,
+      lastAttemptAt: insertDelivery.lastAttemptAt ?? null,
+      sentAt: insertDelivery.sentAt ?? null,
+      createdAt: new Date(),
+    };
+    this.webhookDeliveries.set(id, delivery);
+    return delivery;
+  }
+
+  async updateWebhookDelivery(id: number, update: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const existing = this.webhookDeliveries.get(id);
+    if (!existing) return undefined;
+
+    const delivery: WebhookDelivery = { ...existing, ...stripUndefined(update) };
+    this.webhookDeliveries.set(id, delivery);
+    return delivery;
+  }
+
+  // Phone verifications
+
+  async getPhoneVerification(userId: number): Promise<PhoneVerification | undefined> {
+    return this.phoneVerifications.get(userId);
+  }
+
+  async upsertPhoneVerification(insertVerification: InsertPhoneVerification): Promise<PhoneVerification> {
+    const verification: PhoneVerification = {
+      ...insertVerification,
+      attempts: insertVerification.attempts ?? 0,
+      createdAt: insertVerification.createdAt ?? new Date(),
+    };
+    this.phoneVerifications.set(verification.userId, verification);
+    return verification;
+  }
+
+  async deletePhoneVerification(userId: number): Promise<boolean> {
+    return this.phoneVerifications.delete(userId);
+  }
+
+  // Source status
+
+  async getSourceStatuses(): Promise<SourceStatus[]> {
+    return Array.from(this.sourceStatuses.values());
+  }
+
+  async upsertSourceStatus(insertStatus: InsertSourceStatus): Promise<SourceStatus> {
+    const existing = this.sourceStatuses.get(insertStatus.source);
+    const status: SourceStatus = {
+      lastRunAt: null,
+      lastSuccessAt: null,
+      lastError: null,
+      recordCount: 0,
+      ...existing,
+      ...stripUndefined(insertStatus),
+      source: insertStatus.source,
+    };
+    this.sourceStatuses.set(status.source, status);
+    return status;
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // Users
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, update: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set(update)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(users).where(eq(users.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Alert history
+
+  async getAlert(id: number): Promise<AlertHistory | undefined> {
+    const [alert] = await this.db.select().from(alertHistory).where(eq(alertHistory.id, id));
+    return alert;
+  }
+
+  async getAlertHistory(userId: number): Promise<AlertHistory[]> {
+    return this.db
+      .select()
+      .from(alertHistory)
+      .where(eq(alertHistory.userId, userId))
+      .orderBy(desc(alertHistory.timestamp));
+  }
+
+  async getAlertsByExternalId(externalId: string): Promise<AlertHistory[]> {
+    return this.db.select().from(alertHistory).where(eq(alertHistory.externalId, externalId));
+  }
+
+  async createAlert(insertAlert: InsertAlertHistory): Promise<AlertHistory> {
+    const [alert] = await this.db.insert(alertHistory).values(insertAlert).returning();
+    return alert;
+  }
+
+  async updateAlert(id: number, update: Partial<InsertAlertHistory>): Promise<AlertHistory | undefined> {
+    const [alert] = await this.db
+      .update(alertHistory)
+      .set(update)
+      .where(eq(alertHistory.id, id))
+      .returning();
+    return alert;
+  }
+
+  async deleteAlert(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(alertHistory).where(eq(alertHistory.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async markAlertsRead(userId: number): Promise<number> {
+    const updated = await this.db
+      .update(alertHistory)
+      .set({ read: true })
+      .where(and(eq(alertHistory.userId, userId), eq(alertHistory.read, false)))
+      .returning();
+    return updated.length;
+  }
+
+  // Saved locations
+
+  async getSavedLocation(id: number): Promise<SavedLocation | undefined> {
+    const [location] = await this.db.select().from(savedLocations).where(eq(savedLocations.id, id));
+    return location;
+  }
+
+  async getSavedLocations(userId: number): Promise<SavedLocation[]> {
+    return this.db
+      .select()
+      .from(savedLocations)
+      .where(eq(savedLocations.userId, userId))
+      .orderBy(asc(savedLocations.position), asc(savedLocations.id));
+  }
+
+  async createSavedLocation(insertLocation: InsertSavedLocation): Promise<SavedLocation> {
+    const [location] = await this.db.insert(savedLocations).values(insertLocation).returning();
+    return location;
+  }
+
+  async updateSavedLocation(id: number, update: Partial<InsertSavedLocation>): Promise<SavedLocation | undefined> {
+    const [location] = await this.db
+      .update(savedLocations)
+      .set(update)
+      .where(eq(savedLocations.id, id))
+      .returning();
+    return location;
+  }
+
+  async deleteSavedLocation(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(savedLocations).where(eq(savedLocations.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Disasters
+
+  async getDisaster(id: number): Promise<Disaster | undefined> {
+    const [disaster] = await this.db.select().from(disasters).where(eq(disasters.id, id));
+    return disaster;
+  }
+
+  async getDisasterByExternalId(externalId: string): Promise<Disaster | undefined> {
+    const [disaster] = await this.db.select().from(disasters).where(eq(disasters.externalId, externalId));
+    return disaster;
+  }
+
+  async getDisasters(): Promise<Disaster[]> {
+    return this.db.select().from(disasters).orderBy(desc(disasters.timestamp));
+  }
+
+  async createDisaster(insertDisaster: InsertDisaster): Promise<Disaster> {
+    const [disaster] = await this.db.insert(disasters).values(insertDisaster).returning();
+    return disaster;
+  }
+
+  async updateDisaster(id: number, update: Partial<InsertDisaster>): Promise<Disaster | undefined> {
+    const [disaster] = await this.db
+      .update(disasters)
+      .set(update)
+      .where(eq(disasters.id, id))
+      .returning();
+    return disaster;
+  }
+
+  async deleteDisaster(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(disasters).where(eq(disasters.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Notification deliveries
+
+  async getDelivery(id: number): Promise<NotificationDelivery | undefined> {
+    const [delivery] = await this.db
+      .select()
+      .from(notificationDeliveries)
+      .where(eq(notificationDeliveries.id, id));
+    return delivery;
+  }
+
+  async getDeliveriesForAlert(alertId: number): Promise<NotificationDelivery[]> {
+    return this.db
+      .select()
+      .from(notificationDeliveries)
+      .where(eq(notificationDeliveries.alertId, alertId));
+  }
+
+  async getDeliveriesByStatus(status: string): Promise<NotificationDelivery[]> {
+    return this.db
+      .select()
+      .from(notificationDeliveries)
+      .where(eq(notificationDeliveries.status, status));
+  }
+
+  async createDelivery(insertDelivery: InsertNotificationDelivery): Promise<NotificationDelivery> {
+    const [delivery] = await this.db.insert(notificationDeliveries).values(insertDelivery).returning();
+    return delivery;
+  }
+
+  async updateDelivery(id: number, update: Partial<InsertNotificationDelivery>): Promise<NotificationDelivery | undefined> {
+    const [delivery] = await this.db
+      .update(notificationDeliveries)
+      .set(update)
+      .where(eq(notificationDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+
+  // Push subscriptions
+
+  async getPushSubscriptions(userId: number): Promise<PushSubscription[]> {
+    return this.db
+      .select()
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.userId, userId));
+  }
+
+  async getPushSubscriptionByEndpoint(endpoint: string): Promise<PushSubscription | undefined> {
+    const [subscription] = await this.db
+      .select()
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.endpoint, endpoint));
+    return subscription;
+  }
+
+  async upsertPushSubscription(insertSubscription: InsertPushSubscription): Promise<PushSubscription> {
+    const { endpoint, ...update } = insertSubscription;
+    const [subscription] = await this.db
+      .insert(pushSubscriptions)
+      .values(insertSubscription)
+      .onConflictDoUpdate({ target: pushSubscriptions.endpoint, set: update })
+      .returning();
+    return subscription;
+  }
+
+  async deletePushSubscription(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(pushSubscriptions)
+      .where(eq(pushSubscriptions.id, id))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Webhooks
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const [webhook] = await this.db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook;
+  }
+
+  async getWebhooks(userId: number): Promise<Webhook[]> {
+    return this.db
+      .select()
+      .from(webhooks)
+      .where(eq(webhooks.userId, userId))
+      .orderBy(asc(webhooks.id));
+  }
+
+  async getActiveWebhooks(): Promise<Webhook[]> {
+    return this.db.select().from(webhooks).where(eq(webhooks.active, true));
+  }
+
+  async createWebhook(insertWebhook: InsertWebhook): Promise<Webhook> {
+    const [webhook] = await this.db.insert(webhooks).values(insertWebhook).returning();
+    return webhook;
+  }
+
+  async updateWebhook(id: number, update: Partial<InsertWebhook>): Promise<Webhook | undefined> {
+    const [webhook] = await this.db
+      .update(webhooks)
+      .set(update)
+      .where(eq(webhooks.id, id))
+      .returning();
+    return webhook;
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    await this.db.delete(webhookDeliveries).where(eq(webhookDeliveries.webhookId, id));
+    const deleted = await this.db.delete(webhooks).where(eq(webhooks.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Webhook deliveries
+
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async getWebhookDeliveriesByStatus(status: string): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.status, status));
+  }
+
+  async createWebhookDelivery(insertDelivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [delivery] = await this.db.insert(webhookDeliveries).values(insertDelivery).returning();
+    return delivery;
+  }
+
+  async updateWebhookDelivery(id: number, update: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db
+      .update(webhookDeliveries)
+      .set(update)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+
+  // Phone verifications
+
+  async getPhoneVerification(userId: number): Promise<PhoneVerification | undefined> {
+    const [verification] = await this.db
+      .select()
+      .from(phoneVerifications)
+      .where(eq(phoneVerifications.userId, userId));
+    return verification;
+  }
+
+  async upsertPhoneVerification(insertVerification: InsertPhoneVerification): Promise<PhoneVerification> {
+    const { userId, ...update } = insertVerification;
+    const [verification] = await this.db
+      .insert(phoneVerifications)
+      .values(insertVerification)
+      .onConflictDoUpdate({
+        target: phoneVerifications.userId,
+        set: { attempts: 0, createdAt: new Date(), ...update },
+      })
+      .returning();
+    return verification;
+  }
+
+  async deletePhoneVerification(userId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(phoneVerifications)
+      .where(eq(phoneVerifications.userId, userId))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Source status
+
+  async getSourceStatuses(): Promise<SourceStatus[]> {
+    return this.db.select().from(sourceStatus);
+  }
+
+  async upsertSourceStatus(insertStatus: InsertSourceStatus): Promise<SourceStatus> {
+    const { source, ...update } = insertStatus;
+    const [status] = await this.db
+      .insert(sourceStatus)
+      .values(insertStatus)
+      .onConflictDoUpdate({ target: sourceStatus.source, set: update })
+      .returning();
+    return status;
+  }
+}
+
+// Partial updates must not overwrite stored values with undefined
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
 }
 
-export const storage = new MemStorage();
+// Use Postgres when DATABASE_URL is set, otherwise keep everything in memory
+export const storage: IStorage = db ? new DatabaseStorage(db) : new MemStorage();
@@ -1,10 +1,8 @@
-// Define enums to match the client-side types
-export enum DisasterType {
-  Earthquake = "earthquake",
-  Flood = "flood",
-  Storm = "storm",
-  Wildfire = "wildfire"
-}
+import { defaultUserPreferences, type User, type UserPreferences } from '../../shared/schema';
+import { DisasterType, getHazard } from '../../shared/hazards';
+
+// Hazard types are shared with the client
+export { DisasterType };
 
 export enum AlertType {
   Warning = "warning",
@@ -12,6 +10,22 @@ export enum AlertType {
   Advisory = "advisory"
 }
 
+// Alert types ranked by urgency, so an upgrade from watch to warning can be detected
+const alertSeverity: Record<string, number> = {
+  [AlertType.Advisory]: 1,
+  [AlertType.Watch]: 2,
+  [AlertType.Warning]: 3
+};
+
+export function getAlertSeverity(alertType: string): number {
+  return alertSeverity[alertType] ?? 0;
+}
+
+// Stored preferences layered over the defaults, so fields added later are always present
+export function getUserPreferences(user: User): UserPreferences {
+  return { ...defaultUserPreferences, ...user.preferences };
+}
+
 // Map API time range parameter to appropriate values for each API
 export function mapTimeRangeToValue(timeRange: string): string {
   switch (timeRange) {
@@ -35,6 +49,17 @@ export function mapTimeRangeToValue(timeRange: string): string {
   }
 }
 
+// Earliest timestamp included in a time range filter
+export function getTimeRangeStart(timeRange: string, now: Date = new Date()): Date {
+  const hours: Record<string, number> = {
+    'hour': 1,
+    '1day': 24,
+    '7days': 24 * 7,
+    '30days': 24 * 30
+  };
+  return new Date(now.getTime() - hours[mapTimeRangeToValue(timeRange)] * 60 * 60 * 1000);
+}
+
 // Format a date for display
 export function formatDate(date: Date): string {
   return date.toLocaleString('en-US', {
@@ -80,16 +105,5 @@ export function getAlertTypeColor(alertType: AlertType): string {
 
 // Get icon for a disaster type
 export function getDisasterIcon(type: DisasterType): string {
-  switch (type) {
-    case DisasterType.Earthquake:
-      return 'vibration';
-    case DisasterType.Flood:
-      return 'water';
-    case DisasterType.Storm:
-      return 'bolt';
-    case DisasterType.Wildfire:
-      return 'local_fire_department';
-    default:
-      return 'warning';
-  }
+  return getHazard(type).icon;
 }
@@ -0,0 +1,229 @@
+import type { Disaster, DisasterGeometry, Position } from '../../shared/schema';
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE = EARTH_RADIUS_KM * Math.PI / 180;
+
+export interface Bounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// Calculate distance between two points using Haversine formula
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat/2) * Math.sin(dLat/2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon/2) * Math.sin(dLon/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+  return EARTH_RADIUS_KM * c;
+}
+
+// The area a disaster affects, or its reported position when the source gave
+// no geometry. Null if it has neither.
+export function disasterFootprint(disaster: Disaster): DisasterGeometry | null {
+  if (disaster.geometry) return disaster.geometry;
+
+  const latitude = parseFloat(disaster.latitude);
+  const longitude = parseFloat(disaster.longitude);
+  if (isNaN(latitude) || isNaN(longitude)) return null;
+
+  return { type: 'Point', coordinates: [longitude, latitude] };
+}
+
+// Distance from a point to a disaster's footprint, 0 when inside it. NaN if
+// the disaster has no usable location.
+export function distanceToDisaster(disaster: Disaster, latitude: number, longitude: number): number {
+  const footprint = disasterFootprint(disaster);
+  return footprint ? distanceToGeometry(footprint, latitude, longitude) : NaN;
+}
+
+// Narrow untrusted GeoJSON to the geometry types a disaster footprint can have
+export function toDisasterGeometry(geometry: unknown): DisasterGeometry | null {
+  if (!geometry || typeof geometry !== 'object') return null;
+
+  const { type, coordinates } = geometry as { type?: unknown, coordinates?: unknown };
+  if (!Array.isArray(coordinates)) return null;
+  return type === 'Point' || type === 'Polygon' || type === 'MultiPolygon'
+    ? geometry as DisasterGeometry
+    : null;
+}
+
+// Combine the polygons of several geometries into one footprint; points are dropped
+export function mergePolygons(geometries: (DisasterGeometry | null | undefined)[]): DisasterGeometry | null {
+  const polygons = geometries.flatMap(geometry => geometry ? polygonsOf(geometry) : []);
+
+  if (polygons.length === 0) return null;
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+// Each polygon as its outer ring followed by any holes
+function polygonsOf(geometry: DisasterGeometry): Position[][][] {
+  switch (geometry.type) {
+    case 'Polygon': return [geometry.coordinates];
+    case 'MultiPolygon': return geometry.coordinates;
+    default: return [];
+  }
+}
+
+// Ray casting on the longitude/latitude plane
+function ringContains(ring: Position[], latitude: number, longitude: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > latitude) !== (yj > latitude) && longitude < (xj - xi) * (latitude - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function geometryContains(geometry: DisasterGeometry, latitude: number, longitude: number): boolean {
+  return polygonsOf(geometry).some(([outer, ...holes]) =>
+    outer !== undefined &&
+    ringContains(outer, latitude, longitude) &&
+    !holes.some(hole => ringContains(hole, latitude, longitude))
+  );
+}
+
+// Distance from a point to the nearest edge of a geometry, 0 when inside it
+export function distanceToGeometry(geometry: DisasterGeometry, latitude: number, longitude: number): number {
+  if (geometry.type === 'Point') {
+    const [pointLongitude, pointLatitude] = geometry.coordinates;
+    return calculateDistance(latitude, longitude, pointLatitude, pointLongitude);
+  }
+  if (geometryContains(geometry, latitude, longitude)) return 0;
+
+  let nearest = Infinity;
+  for (const polygon of polygonsOf(geometry)) {
+    for (const ring of polygon) {
+      for (let i = 1; i < ring.length; i++) {
+        nearest = Math.min(nearest, distanceToSegment(latitude, longitude, ring[i - 1], ring[i]));
+      }
+    }
+  }
+  return nearest;
+}
+
+// Works on a plane tangent at the point, which is accurate to well under 1%
+// over the few hundred kilometers that notification radii cover
+function distanceToSegment(latitude: number, longitude: number, a: Position, b: Position): number {
+  const project = ([pointLongitude, pointLatitude]: Position): [number, number] => {
+    const dLon = ((pointLongitude - longitude + 540) % 360) - 180;
+    return [
+      dLon * Math.cos(latitude * Math.PI / 180) * KM_PER_DEGREE,
+      (pointLatitude - latitude) * KM_PER_DEGREE,
+    ];
+  };
+
+  const [ax, ay] = project(a);
+  const [bx, by] = project(b);
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+// Area-weighted centroid of the outer rings, for placing a marker on a footprint
+export function geometryCentroid(geometry: DisasterGeometry): { latitude: number, longitude: number } | null {
+  if (geometry.type === 'Point') {
+    const [longitude, latitude] = geometry.coordinates;
+    return { latitude, longitude };
+  }
+
+  let area = 0;
+  let sumX = 0;
+  let sumY = 0;
+
+  for (const [outer] of polygonsOf(geometry)) {
+    if (!outer) continue;
+
+    let ringArea = 0;
+    let ringX = 0;
+    let ringY = 0;
+    for (let i = 0; i < outer.length; i++) {
+      const [x0, y0] = outer[i];
+      const [x1, y1] = outer[(i + 1) % outer.length];
+      const cross = x0 * y1 - x1 * y0;
+      ringArea += cross;
+      ringX += (x0 + x1) * cross;
+      ringY += (y0 + y1) * cross;
+    }
+
+    // Ring winding varies between feeds; the sign cancels out in the centroid
+    const sign = ringArea < 0 ? -1 : 1;
+    area += sign * ringArea;
+    sumX += sign * ringX;
+    sumY += sign * ringY;
+  }
+
+  if (area === 0) {
+    // Degenerate rings, e.g. a line: fall back to the average vertex
+    const points = polygonsOf(geometry).flatMap(([outer]) => outer ?? []);
+    if (points.length === 0) return null;
+    return {
+      latitude: points.reduce((sum, [, y]) => sum + y, 0) / points.length,
+      longitude: points.reduce((sum, [x]) => sum + x, 0) / points.length,
+    };
+  }
+
+  return { latitude: sumY / (3 * area), longitude: sumX / (3 * area) };
+}
+
+// Whether a geometry's bounding box overlaps the given bounds; west > east
+// means the bounds cross the antimeridian
+export function geometryIntersectsBounds(geometry: DisasterGeometry, bounds: Bounds): boolean {
+  const points = geometry.type === 'Point'
+    ? [geometry.coordinates]
+    : polygonsOf(geometry).flatMap(([outer]) => outer ?? []);
+  if (points.length === 0) return false;
+
+  let west = Infinity, east = -Infinity, south = Infinity, north = -Infinity;
+  for (const [x, y] of points) {
+    west = Math.min(west, x);
+    east = Math.max(east, x);
+    south = Math.min(south, y);
+    north = Math.max(north, y);
+  }
+
+  if (north < bounds.south || south > bounds.north) return false;
+
+  return bounds.west <= bounds.east
+    ? west <= bounds.east && east >= bounds.west
+    : east >= bounds.west || west <= bounds.east;
+}
+
+// Smallest convex polygon around a set of points (monotone chain), or null
+// when they are fewer than three or all in a line
+export function convexHull(points: Position[]): DisasterGeometry | null {
+  const sorted = [...points].sort(([ax, ay], [bx, by]) => ax - bx || ay - by);
+  const cross = (o: Position, a: Position, b: Position) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+  const half = (input: Position[]): Position[] => {
+    const hull: Position[] = [];
+    for (const point of input) {
+      while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], point) <= 0) hull.pop();
+      hull.push(point);
+    }
+    hull.pop();
+    return hull;
+  };
+
+  const ring = [...half(sorted), ...half([...sorted].reverse())];
+  if (ring.length < 3) return null;
+  return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import axios from 'axios';
+import { assertPublicUrl, isPublicAddress, PrivateAddressError, publicLookup } from './publicAddress';
+
+describe('isPublicAddress', () => {
+  it('rejects loopback, private and link-local addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it('accepts public addresses', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700:4700::1111', '::ffff:1.1.1.1']) {
+      expect(isPublicAddress(address), address).toBe(true);
+    }
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it('rejects URLs whose host is a private address literal', async () => {
+    await expect(assertPublicUrl('http://127.0.0.1:5000/hook')).rejects.toBeInstanceOf(PrivateAddressError);
+    await expect(assertPublicUrl('http://[::1]/hook')).rejects.toBeInstanceOf(PrivateAddressError);
+  });
+
+  it('rejects names that resolve to loopback', async () => {
+    await expect(assertPublicUrl('http://localhost/hook')).rejects.toBeInstanceOf(PrivateAddressError);
+  });
+});
+
+describe('publicLookup', () => {
+  it('stops requests from connecting to a name that resolves to loopback', async () => {
+    await expect(axios.get('http://localhost:1/', { lookup: publicLookup, timeout: 2000 }))
+      .rejects.toThrow('not a public internet address');
+  });
+});
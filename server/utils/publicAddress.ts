@@ -0,0 +1,82 @@
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+import type { LookupAddress } from 'dns';
+import type { AddressFamily, LookupAddressEntry } from 'axios';
+
+// Addresses that reach this host or its network rather than the internet:
+// loopback, private, link-local (including cloud metadata), shared, reserved
+// and multicast ranges
+const nonPublic = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  nonPublic.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], // unspecified and loopback
+  ['64:ff9b:1::', 48],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  nonPublic.addSubnet(network, prefix, 'ipv6');
+}
+
+// Thrown when a URL's host is, or resolves to, an address outside the public internet
+export class PrivateAddressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrivateAddressError';
+  }
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return !nonPublic.check(address, 'ipv4');
+  if (family !== 6) return false;
+
+  // IPv4-mapped addresses, e.g. ::ffff:127.0.0.1, are checked as IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  return mapped ? isPublicAddress(mapped[1]) : !nonPublic.check(address, 'ipv6');
+}
+
+// Every address the hostname resolves to, all of them public
+async function resolvePublic(hostname: string): Promise<LookupAddress[]> {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true, verbatim: true });
+
+  if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new PrivateAddressError(`${hostname} is not a public internet address`);
+  }
+  return addresses;
+}
+
+export async function assertPublicUrl(url: string): Promise<void> {
+  await resolvePublic(new URL(url).hostname);
+}
+
+// DNS lookup for outgoing requests that refuses non-public answers. Checking
+// at connection time means a name that is re-pointed after it was checked
+// still cannot reach an internal host.
+export function publicLookup(
+  hostname: string,
+  _options: object,
+  callback: (error: Error | null, addresses: LookupAddressEntry[]) => void
+) {
+  resolvePublic(hostname).then(
+    addresses => callback(null, addresses.map(({ address, family }) => ({ address, family: family as AddressFamily }))),
+    error => callback(error, [])
+  );
+}
@@ -0,0 +1,17 @@
+// Failed notification and webhook deliveries are retried with exponential
+// backoff (1, 2, 4, 8 minutes) until they have been attempted MAX_ATTEMPTS times
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+interface RetryableDelivery {
+  attempts: number;
+  lastAttemptAt: Date | null;
+}
+
+// Whether a failed delivery has attempts left and its backoff has elapsed
+export function isRetryDue(delivery: RetryableDelivery, now: Date): boolean {
+  if (delivery.attempts >= MAX_ATTEMPTS) return false;
+
+  const delay = RETRY_BASE_DELAY_MS * 2 ** (delivery.attempts - 1);
+  return !delivery.lastAttemptAt || now.getTime() - delivery.lastAttemptAt.getTime() >= delay;
+}
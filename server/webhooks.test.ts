@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import axios from 'axios';
+import { Disaster } from '@shared/schema';
+import { storage } from './storage';
+import { dispatchWebhooks } from './webhooks';
+
+vi.mock('axios');
+vi.mock('./utils/publicAddress', () => ({
+  assertPublicUrl: async () => {},
+  publicLookup: () => {},
+  PrivateAddressError: class extends Error {},
+}));
+
+const post = vi.mocked(axios.post);
+
+// Receivers that answer only when told to
+let pending: (() => void)[] = [];
+beforeEach(() => {
+  pending = [];
+  post.mockReset();
+  post.mockImplementation(() => new Promise(resolve => pending.push(() => resolve({ status: 200 }))));
+});
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+let nextId = 1;
+function quake(timestamp: Date): Disaster {
+  return {
+    id: nextId,
+    externalId: `us${nextId++}`,
+    disasterType: 'earthquake',
+    alertType: 'warning',
+    title: 'Magnitude 6.1 Earthquake',
+    description: 'M 6.1 - Offshore',
+    location: 'Offshore',
+    latitude: '35',
+    longitude: '140',
+    source: 'USGS',
+    timestamp,
+    validUntil: null,
+    geometry: null,
+    data: null,
+  };
+}
+
+async function subscribe(count: number) {
+  for (const webhook of await storage.getActiveWebhooks()) {
+    await storage.updateWebhook(webhook.id, { active: false });
+  }
+  for (let i = 0; i < count; i++) {
+    await storage.createWebhook({
+      userId: 1,
+      url: `https://receiver${i}.example/hook`,
+      secret: 'whsec_test',
+      events: ['disaster.created', 'disaster.expired'],
+      filters: { disasterTypes: [], alertTypes: [], area: null },
+    });
+  }
+}
+
+describe('dispatchWebhooks', () => {
+  it('does not send created events for disasters that are history', async () => {
+    await subscribe(1);
+    await dispatchWebhooks('created', quake(new Date(Date.now() - 3 * 24 * 60 * 60 * 1000)));
+    await settle();
+
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('still sends expiry of old disasters', async () => {
+    await subscribe(1);
+    await dispatchWebhooks('expired', quake(new Date(Date.now() - 3 * 24 * 60 * 60 * 1000)));
+    await settle();
+
+    expect(post).toHaveBeenCalledTimes(1);
+    pending.forEach(respond => respond());
+    await settle();
+  });
+
+  it('keeps at most four deliveries in flight and sends the rest as they finish', async () => {
+    await subscribe(10);
+    await dispatchWebhooks('created', quake(new Date()));
+    await settle();
+    expect(post).toHaveBeenCalledTimes(4);
+
+    pending.splice(0, 2).forEach(respond => respond());
+    await settle();
+    expect(post).toHaveBeenCalledTimes(6);
+
+    while (pending.length > 0) {
+      pending.splice(0).forEach(respond => respond());
+      await settle();
+    }
+    expect(post).toHaveBeenCalledTimes(10);
+  });
+});
@@ -0,0 +1,365 @@
+import type { Express, Request, Response } from "express";
+import axios from "axios";
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { z } from "zod";
+import {
+  Disaster,
+  Webhook,
+  WebhookDelivery,
+  WebhookPayload,
+  webhookEventValues,
+  webhookFiltersSchema,
+} from "@shared/schema";
+import type { DisasterEvent } from "@shared/realtime";
+import { storage } from "./storage";
+import { requireAuth } from "./auth";
+import { matchesDisasterFilters } from "./api";
+import { isCurrent } from "./alertEngine";
+import { assertPublicUrl, publicLookup, PrivateAddressError } from "./utils/publicAddress";
+import { isRetryDue } from "./utils/retryBackoff";
+import { log } from "./vite";
+
+// Failed deliveries are retried on the schedule in utils/retryBackoff
+const RETRY_INTERVAL_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const DELIVERY_LOG_LIMIT = 50;
+// Deliveries in flight at once; the rest wait their turn in queuedDeliveries
+const MAX_CONCURRENT_DELIVERIES = 4;
+
+let retryTimer: NodeJS.Timeout | undefined;
+
+const queuedDeliveries: { webhook: Webhook, delivery: WebhookDelivery }[] = [];
+let deliveriesInFlight = 0;
+
+const webhookUrlSchema = z.string().url().refine(
+  url => /^https?:$/.test(new URL(url).protocol),
+  'Webhook URL must use http or https'
+);
+
+const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: z.array(z.enum(webhookEventValues)).min(1, 'Choose at least one event'),
+  filters: webhookFiltersSchema,
+  active: z.boolean().optional(),
+}).strict();
+
+const updateWebhookSchema = createWebhookSchema.partial();
+
+// Receivers verify a delivery by computing the same HMAC over the raw body
+export function signPayload(secret: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// Send a disaster event to every active webhook subscribed to it. Every
+// attempt is recorded in webhook_deliveries; failures never throw. Like
+// alerts, created and updated events for disasters that are history are not
+// sent. Deliveries are queued, so a burst of events never floods receivers.
+export async function dispatchWebhooks(event: DisasterEvent, disaster: Disaster): Promise<void> {
+  if (event !== 'expired' && !isCurrent(disaster, new Date())) return;
+
+  try {
+    const webhookEvent = `disaster.${event}` as const;
+
+    for (const webhook of await storage.getActiveWebhooks()) {
+      if (!webhook.events.includes(webhookEvent) || !matchesWebhookFilters(webhook, disaster)) continue;
+
+      const delivery = await storage.createWebhookDelivery({
+        webhookId: webhook.id,
+        event: webhookEvent,
+        payload: buildPayload(webhookEvent, disaster),
+      });
+      queuedDeliveries.push({ webhook, delivery });
+    }
+    drainDeliveryQueue();
+  } catch (error) {
+    console.error(`Error dispatching webhooks for disaster ${disaster.id}:`, error);
+  }
+}
+
+function drainDeliveryQueue() {
+  while (deliveriesInFlight < MAX_CONCURRENT_DELIVERIES && queuedDeliveries.length > 0) {
+    const { webhook, delivery } = queuedDeliveries.shift()!;
+    deliveriesInFlight++;
+    attemptWebhookDelivery(webhook, delivery)
+      .catch(error => console.error(`Error delivering webhook ${webhook.id}:`, error))
+      .finally(() => {
+        deliveriesInFlight--;
+        drainDeliveryQueue();
+      });
+  }
+}
+
+function matchesWebhookFilters(webhook: Webhook, disaster: Disaster): boolean {
+  const { disasterTypes, alertTypes, area } = webhook.filters;
+  return matchesDisasterFilters(disaster, {
+    types: disasterTypes,
+    alertTypes,
+    latitude: area?.latitude,
+    longitude: area?.longitude,
+    radius: area?.radius,
+  });
+}
+
+function buildPayload(event: WebhookPayload['event'], disaster: Disaster): WebhookPayload {
+  return {
+    id: randomUUID(),
+    event,
+    createdAt: new Date().toISOString(),
+    data: disaster,
+  };
+}
+
+async function attemptWebhookDelivery(webhook: Webhook, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const attemptedAt = new Date();
+  const attempts = delivery.attempts + 1;
+  const body = JSON.stringify(delivery.payload);
+
+  try {
+    // Checked on every attempt, since where a name points can change
+    await assertPublicUrl(webhook.url);
+
+    const response = await axios.post(webhook.url, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'DisasterTrack-Webhooks/1.0',
+        'X-DisasterTrack-Event': delivery.event,
+        'X-DisasterTrack-Delivery': delivery.payload.id,
+        'X-DisasterTrack-Signature': signPayload(webhook.secret, body),
+      },
+      timeout: REQUEST_TIMEOUT_MS,
+      maxRedirects: 0,
+      lookup: publicLookup,
+      validateStatus: () => true,
+    });
+
+    const succeeded = response.status >= 200 && response.status < 300;
+    if (!succeeded) {
+      log(`webhook ${webhook.id} delivery ${delivery.id} got HTTP ${response.status} (attempt ${attempts})`, 'webhooks');
+    }
+
+    const updated = await storage.updateWebhookDelivery(delivery.id, {
+      status: succeeded ? 'sent' : 'failed',
+      attempts,
+      responseStatus: response.status,
+      lastAttemptAt: attemptedAt,
+      sentAt: succeeded ? new Date() : undefined,
+      lastError: succeeded ? null : `HTTP ${response.status}`,
+    });
+    return updated!;
+  } catch (error) {
+    // Network errors and timeouts: no response to record
+    const message = error instanceof Error ? error.message : String(error);
+    log(`webhook ${webhook.id} delivery ${delivery.id} failed (attempt ${attempts}): ${message}`, 'webhooks');
+
+    const failed = await storage.updateWebhookDelivery(delivery.id, {
+      status: 'failed',
+      attempts,
+      responseStatus: null,
+      lastAttemptAt: attemptedAt,
+      lastError: message,
+    });
+    return failed!;
+  }
+}
+
+// Retry failed deliveries whose backoff has elapsed. Test deliveries and
+// deliveries for webhooks that were deleted or paused are left as they are.
+export async function retryFailedWebhookDeliveries(now: Date = new Date()): Promise<void> {
+  for (const delivery of await storage.getWebhookDeliveriesByStatus('failed')) {
+    if (delivery.event === 'test' || !isRetryDue(delivery, now)) continue;
+
+    const webhook = await storage.getWebhook(delivery.webhookId);
+    if (!webhook?.active) continue;
+
+    await attemptWebhookDelivery(webhook, delivery);
+  }
+}
+
+export function startWebhookRetries() {
+  if (retryTimer) return;
+
+  retryTimer = setInterval(() => {
+    retryFailedWebhookDeliveries().catch(error => console.error('Error retrying webhook deliveries:', error));
+  }, RETRY_INTERVAL_MS);
+}
+
+export function stopWebhookRetries() {
+  clearInterval(retryTimer);
+  retryTimer = undefined;
+}
+
+// A made-up disaster matching the webhook's filters, so receivers can test
+// their handling without waiting for a real event
+function sampleDisaster(webhook: Webhook): Disaster {
+  const { disasterTypes, alertTypes, area } = webhook.filters;
+  const now = new Date();
+
+  return {
+    id: 0,
+    externalId: `test-${now.getTime()}`,
+    disasterType: disasterTypes[0] ?? 'earthquake',
+    alertType: alertTypes[0] ?? 'advisory',
+    title: 'Test event from DisasterTrack',
+    description: 'This is a test delivery. It does not describe a real disaster.',
+    location: 'Test location',
+    latitude: String(area?.latitude ?? 0),
+    longitude: String(area?.longitude ?? 0),
+    source: 'DisasterTrack',
+    timestamp: now,
+    validUntil: null,
+    geometry: null,
+    data: null,
+  };
+}
+
+// Webhooks may only point at the public internet, so they cannot be used to
+// reach this server or its network. Answers 400 and returns false otherwise.
+async function checkWebhookUrl(url: string | undefined, res: Response): Promise<boolean> {
+  if (url === undefined) return true;
+
+  try {
+    await assertPublicUrl(url);
+    return true;
+  } catch (error) {
+    res.status(400).json({
+      message: error instanceof PrivateAddressError
+        ? 'Webhook URL must point to a public internet address'
+        : 'Webhook URL host could not be resolved'
+    });
+    return false;
+  }
+}
+
+// Look up a webhook by route id, answering 404 unless it belongs to the logged-in user
+async function findOwnWebhook(req: Request, res: Response): Promise<Webhook | undefined> {
+  const id = parseInt(req.params.id);
+  const webhook = isNaN(id) ? undefined : await storage.getWebhook(id);
+
+  if (!webhook || webhook.userId !== req.user!.id) {
+    res.status(404).json({ message: 'Webhook not found' });
+    return undefined;
+  }
+  return webhook;
+}
+
+// Webhook registrations for the logged-in user and their delivery logs
+export function setupWebhooks(app: Express) {
+  app.get("/api/webhooks", requireAuth, async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getWebhooks(req.user!.id));
+    } catch (error) {
+      console.error('Error in GET /api/webhooks:', error);
+      res.status(500).json({ message: 'Failed to fetch webhooks' });
+    }
+  });
+
+  app.post("/api/webhooks", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parseResult = createWebhookSchema.safeParse(req.body);
+
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: 'Invalid webhook',
+          errors: parseResult.error.errors
+        });
+      }
+
+      if (!await checkWebhookUrl(parseResult.data.url, res)) return;
+
+      const webhook = await storage.createWebhook({
+        ...parseResult.data,
+        userId: req.user!.id,
+        secret: generateSecret(),
+      });
+
+      res.status(201).json(webhook);
+    } catch (error) {
+      console.error('Error in POST /api/webhooks:', error);
+      res.status(500).json({ message: 'Failed to create webhook' });
+    }
+  });
+
+  app.patch("/api/webhooks/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parseResult = updateWebhookSchema.safeParse(req.body);
+
+      if (!parseResult.success) {
+        return res.status(400).json({
+          message: 'Invalid webhook',
+          errors: parseResult.error.errors
+        });
+      }
+
+      const webhook = await findOwnWebhook(req, res);
+      if (!webhook) return;
+      if (!await checkWebhookUrl(parseResult.data.url, res)) return;
+
+      res.json(await storage.updateWebhook(webhook.id, parseResult.data));
+    } catch (error) {
+      console.error('Error in PATCH /api/webhooks/:id:', error);
+      res.status(500).json({ message: 'Failed to update webhook' });
+    }
+  });
+
+  app.delete("/api/webhooks/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const webhook = await findOwnWebhook(req, res);
+      if (!webhook) return;
+
+      await storage.deleteWebhook(webhook.id);
+      res.json({ message: 'Webhook deleted' });
+    } catch (error) {
+      console.error('Error in DELETE /api/webhooks/:id:', error);
+      res.status(500).json({ message: 'Failed to delete webhook' });
+    }
+  });
+
+  // Replace the signing secret, e.g. after it was leaked
+  app.post("/api/webhooks/:id/secret", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const webhook = await findOwnWebhook(req, res);
+      if (!webhook) return;
+
+      res.json(await storage.updateWebhook(webhook.id, { secret: generateSecret() }));
+    } catch (error) {
+      console.error('Error in POST /api/webhooks/:id/secret:', error);
+      res.status(500).json({ message: 'Failed to rotate webhook secret' });
+    }
+  });
+
+  // Send a sample event right away and report how the receiver answered.
+  // Test deliveries are logged but not retried.
+  app.post("/api/webhooks/:id/test", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const webhook = await findOwnWebhook(req, res);
+      if (!webhook) return;
+
+      const delivery = await storage.createWebhookDelivery({
+        webhookId: webhook.id,
+        event: 'test',
+        payload: buildPayload('test', sampleDisaster(webhook)),
+      });
+
+      res.json(await attemptWebhookDelivery(webhook, delivery));
+    } catch (error) {
+      console.error('Error in POST /api/webhooks/:id/test:', error);
+      res.status(500).json({ message: 'Failed to send test event' });
+    }
+  });
+
+  app.get("/api/webhooks/:id/deliveries", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const webhook = await findOwnWebhook(req, res);
+      if (!webhook) return;
+
+      res.json(await storage.getWebhookDeliveries(webhook.id, DELIVERY_LOG_LIMIT));
+    } catch (error) {
+      console.error('Error in GET /api/webhooks/:id/deliveries:', error);
+      res.status(500).json({ message: 'Failed to fetch webhook deliveries' });
+    }
+  });
+}
@@ -0,0 +1,179 @@
+// Every hazard the app tracks. Sources report the most specific type they can;
+// a subtype names its parent category, so a preference or filter for storms
+// also covers tornadoes, hurricanes and winter storms.
+export enum DisasterType {
+  Earthquake = "earthquake",
+  Flood = "flood",
+  Storm = "storm",
+  Tornado = "tornado",
+  Hurricane = "hurricane",
+  WinterStorm = "winter-storm",
+  Wildfire = "wildfire",
+  Heat = "heat",
+  Drought = "drought",
+  Volcano = "volcano",
+  Tsunami = "tsunami",
+  Landslide = "landslide",
+  AirQuality = "air-quality",
+}
+
+export interface Hazard {
+  id: DisasterType;
+  label: string; // one event, e.g. "Hurricane"
+  pluralLabel: string; // filter buttons and checkboxes, e.g. "Hurricanes"
+  title: string; // heading for a group of alerts
+  icon: string; // Material Icons name
+  color: string; // hex, for gradients and map accents
+  parent: DisasterType | null; // the category a subtype belongs to
+}
+
+// Listed in display order: each category followed by its subtypes
+export const HAZARDS: Record<DisasterType, Hazard> = {
+  [DisasterType.Storm]: {
+    id: DisasterType.Storm,
+    label: "Storm",
+    pluralLabel: "Storms",
+    title: "Storms & Severe Weather",
+    icon: "bolt",
+    color: "#3b82f6",
+    parent: null,
+  },
+  [DisasterType.Tornado]: {
+    id: DisasterType.Tornado,
+    label: "Tornado",
+    pluralLabel: "Tornadoes",
+    title: "Tornadoes",
+    icon: "tornado",
+    color: "#6366f1",
+    parent: DisasterType.Storm,
+  },
+  [DisasterType.Hurricane]: {
+    id: DisasterType.Hurricane,
+    label: "Hurricane",
+    pluralLabel: "Hurricanes",
+    title: "Hurricanes & Tropical Storms",
+    icon: "cyclone",
+    color: "#2563eb",
+    parent: DisasterType.Storm,
+  },
+  [DisasterType.WinterStorm]: {
+    id: DisasterType.WinterStorm,
+    label: "Winter Storm",
+    pluralLabel: "Winter Storms",
+    title: "Winter Storms & Ice",
+    icon: "ac_unit",
+    color: "#0ea5e9",
+    parent: DisasterType.Storm,
+  },
+  [DisasterType.Earthquake]: {
+    id: DisasterType.Earthquake,
+    label: "Earthquake",
+    pluralLabel: "Earthquakes",
+    title: "Earthquakes & Seismic Activity",
+    icon: "vibration",
+    color: "#f59e0b",
+    parent: null,
+  },
+  [DisasterType.Flood]: {
+    id: DisasterType.Flood,
+    label: "Flood",
+    pluralLabel: "Floods",
+    title: "Floods & Water Hazards",
+    icon: "water",
+    color: "#06b6d4",
+    parent: null,
+  },
+  [DisasterType.Wildfire]: {
+    id: DisasterType.Wildfire,
+    label: "Wildfire",
+    pluralLabel: "Wildfires",
+    title: "Wildfires & Fire Hazards",
+    icon: "local_fire_department",
+    color: "#ef4444",
+    parent: null,
+  },
+  [DisasterType.Heat]: {
+    id: DisasterType.Heat,
+    label: "Extreme Heat",
+    pluralLabel: "Extreme Heat",
+    title: "Extreme Heat",
+    icon: "thermostat",
+    color: "#f97316",
+    parent: null,
+  },
+  [DisasterType.Drought]: {
+    id: DisasterType.Drought,
+    label: "Drought",
+    pluralLabel: "Droughts",
+    title: "Droughts",
+    icon: "wb_sunny",
+    color: "#eab308",
+    parent: null,
+  },
+  [DisasterType.Volcano]: {
+    id: DisasterType.Volcano,
+    label: "Volcano",
+    pluralLabel: "Volcanoes",
+    title: "Volcanic Activity",
+    icon: "volcano",
+    color: "#ea580c",
+    parent: null,
+  },
+  [DisasterType.Tsunami]: {
+    id: DisasterType.Tsunami,
+    label: "Tsunami",
+    pluralLabel: "Tsunamis",
+    title: "Tsunamis",
+    icon: "tsunami",
+    color: "#4f46e5",
+    parent: null,
+  },
+  [DisasterType.Landslide]: {
+    id: DisasterType.Landslide,
+    label: "Landslide",
+    pluralLabel: "Landslides",
+    title: "Landslides & Debris Flows",
+    icon: "landslide",
+    color: "#92400e",
+    parent: null,
+  },
+  [DisasterType.AirQuality]: {
+    id: DisasterType.AirQuality,
+    label: "Air Quality",
+    pluralLabel: "Air Quality",
+    title: "Air Quality & Smoke",
+    icon: "air",
+    color: "#64748b",
+    parent: null,
+  },
+};
+
+// Shown for types this build does not know, e.g. from a newer server
+const unknownHazard: Omit<Hazard, "id"> = {
+  label: "Hazard",
+  pluralLabel: "Other Hazards",
+  title: "Other Hazards",
+  icon: "warning",
+  color: "#6b7280",
+  parent: null,
+};
+
+export const hazards: Hazard[] = Object.values(HAZARDS);
+
+// Top-level categories, for filters and preferences
+export const hazardCategories: Hazard[] = hazards.filter(hazard => hazard.parent === null);
+
+export function getHazard(type: string): Hazard {
+  return HAZARDS[type as DisasterType] ?? { ...unknownHazard, id: type as DisasterType };
+}
+
+// The category a type is grouped under: its parent, or itself
+export function getHazardCategory(type: string): DisasterType {
+  const hazard = getHazard(type);
+  return hazard.parent ?? hazard.id;
+}
+
+// A type matches a list that names it or its category
+export function matchesHazardTypes(type: string, types: readonly string[]): boolean {
+  return types.includes(type) || types.includes(getHazardCategory(type));
+}
@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { alertTypeValues, disasterTypeValues } from "./schema";
+
+// WebSocket endpoint for live disaster events, served on the API's HTTP server
+export const REALTIME_PATH = "/ws";
+
+// Same filters as GET /api/disasters, plus an optional bounding box
+export const disasterSubscriptionSchema = z.object({
+  types: z.array(z.enum(disasterTypeValues)).optional(),
+  alertTypes: z.array(z.enum(alertTypeValues)).optional(),
+  timeRange: z.string().optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  radius: z.number().positive().optional(), // in km, used with latitude/longitude
+  bounds: z.object({
+    north: z.number().min(-90).max(90),
+    south: z.number().min(-90).max(90),
+    east: z.number().min(-180).max(180),
+    west: z.number().min(-180).max(180),
+  }).optional(),
+}).strict();
+
+export type DisasterSubscription = z.infer<typeof disasterSubscriptionSchema>;
+
+// A socket can hold several subscriptions at once, each under a client-chosen id
+export const realtimeClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("subscribe"),
+    id: z.string().min(1).max(64),
+    filters: disasterSubscriptionSchema,
+  }),
+  z.object({
+    type: z.literal("unsubscribe"),
+    id: z.string().min(1).max(64),
+  }),
+]);
+
+export type RealtimeClientMessage = z.infer<typeof realtimeClientMessageSchema>;
+
+export type DisasterEvent = "created" | "updated" | "expired";
+
+// Live subscribers also hear "removed" when an update means a disaster no
+// longer matches their filters, e.g. a warning downgraded to an advisory
+export type DisasterStreamEvent = DisasterEvent | "removed";
+
+// Messages pushed by the server. The disaster type is left open because the
+// client sees the JSON-decoded form, with dates as strings.
+export type RealtimeServerMessage<TDisaster> =
+  | { type: "disaster"; event: DisasterStreamEvent; disaster: TDisaster; subscriptions: string[] }
+  | { type: "error"; message: string };
@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DisasterType, hazardCategories } from "./hazards";
 
 // Users table
 export const users = pgTable("users", {
@@ -8,7 +9,8 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   email: text("email").notNull().unique(),
-  phone: text("phone"),
+  phone: text("phone"), // E.164, e.g. +14155550123
+  phoneVerified: boolean("phone_verified").notNull().default(false),
   location: text("location"),
   preferences: json("preferences").$type<UserPreferences>(),
 });
@@ -18,9 +20,11 @@ export const alertHistory = pgTable("alert_history", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
   alertType: text("alert_type").notNull(), // warning, watch, advisory
-  disasterType: text("disaster_type").notNull(), // earthquake, flood, storm, wildfire
+  disasterType: text("disaster_type").notNull(), // a DisasterType from shared/hazards
   message: text("message").notNull(),
   location: text("location").notNull(),
+  externalId: text("external_id"), // disaster that triggered the alert, used to avoid re-alerting
+  distance: real("distance"), // km from the saved location to the disaster
   timestamp: timestamp("timestamp").notNull().defaultNow(),
   read: boolean("read").notNull().default(false),
 });
@@ -32,35 +36,156 @@ export const savedLocations = pgTable("saved_locations", {
   name: text("name").notNull(),
   latitude: text("latitude").notNull(),
   longitude: text("longitude").notNull(),
+  position: integer("position").notNull().default(0), // display order within a user's list
 });
 
 // Disaster data cached from external APIs
 export const disasters = pgTable("disasters", {
   id: serial("id").primaryKey(),
   externalId: text("external_id").notNull().unique(),
-  disasterType: text("disaster_type").notNull(), // earthquake, flood, storm, wildfire
+  disasterType: text("disaster_type").notNull(), // a DisasterType from shared/hazards
   alertType: text("alert_type").notNull(), // warning, watch, advisory
   title: text("title").notNull(),
   description: text("description").notNull(),
   location: text("location").notNull(),
   latitude: text("latitude").notNull(),
   longitude: text("longitude").notNull(),
-  source: text("source").notNull(), // USGS, NOAA, OpenWeatherMap
+  source: text("source").notNull(), // USGS, NOAA, OpenWeatherMap, GDACS, FEMA, NASA FIRMS, NASA EONET, USGS Water, NHC, NTWC, PTWC, USGS Volcanoes
   timestamp: timestamp("timestamp").notNull(),
   validUntil: timestamp("valid_until"),
+  geometry: json("geometry").$type<DisasterGeometry>(), // affected area; latitude/longitude is its centroid
   data: json("data").$type<DisasterData>(), // Raw data from API
 });
 
+// One row per attempt to notify a user of an alert over a channel, kept for retries
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: serial("id").primaryKey(),
+  alertId: integer("alert_id").notNull().references(() => alertHistory.id),
+  userId: integer("user_id").references(() => users.id),
+  channel: text("channel").notNull(), // email, sms, push
+  recipient: text("recipient").notNull(), // address the notification was sent to
+  status: text("status").notNull().default("pending"), // pending, sent, failed, abandoned
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Browser Web Push subscriptions, one per device a user has enabled push on
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  endpoint: text("endpoint").notNull().unique(), // push service URL identifying the browser
+  p256dh: text("p256dh").notNull(), // browser's public key for payload encryption
+  auth: text("auth").notNull(), // browser's auth secret for payload encryption
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Outbound webhook registrations that receive disaster events as signed JSON
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC-SHA256 key for the X-DisasterTrack-Signature header
+  events: json("events").$type<WebhookEvent[]>().notNull(),
+  filters: json("filters").$type<WebhookFilters>().notNull(),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row per event sent to a webhook, kept for retries and the delivery log
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull().references(() => webhooks.id),
+  event: text("event").notNull(), // a WebhookEvent, or "test"
+  payload: json("payload").$type<WebhookPayload>().notNull(), // body as sent, so retries are identical
+  status: text("status").notNull().default("pending"), // pending, sent, failed
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"), // HTTP status of the last attempt
+  lastError: text("last_error"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Pending one-time code for confirming a user's phone number before SMS alerts
+export const phoneVerifications = pgTable("phone_verifications", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  phone: text("phone").notNull(), // number the code was sent to
+  codeHash: text("code_hash").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  attempts: integer("attempts").notNull().default(0), // wrong codes entered so far
+  createdAt: timestamp("created_at").notNull().defaultNow(), // when the code was sent
+});
+
+// Freshness of each upstream feed, written by the ingestion scheduler
+export const sourceStatus = pgTable("source_status", {
+  source: text("source").primaryKey(), // USGS, NOAA, OpenWeatherMap, GDACS, FEMA, NASA FIRMS, NASA EONET, USGS Water, NHC, Tsunami Warning Centers, USGS Volcanoes
+  lastRunAt: timestamp("last_run_at"),
+  lastSuccessAt: timestamp("last_success_at"),
+  lastError: text("last_error"),
+  recordCount: integer("record_count").notNull().default(0), // records upserted by the last successful run
+});
+
 // Types for JSON fields
-export type UserPreferences = {
-  emergencyWarnings: boolean;
-  watchesAdvisories: boolean;
-  smsNotifications: boolean;
-  emailAlerts: boolean;
-  disasterTypes: string[];
-  notificationRadius: number; // in km
+export const disasterTypeValues = Object.values(DisasterType) as [DisasterType, ...DisasterType[]];
+export const alertTypeValues = ["warning", "watch", "advisory"] as const;
+
+export const userPreferencesSchema = z.object({
+  emergencyWarnings: z.boolean(),
+  watchesAdvisories: z.boolean(),
+  smsNotifications: z.boolean(),
+  emailAlerts: z.boolean(),
+  disasterTypes: z.array(z.enum(disasterTypeValues)),
+  notificationRadius: z.number().min(1).max(500), // in km
+}).strict();
+
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
+
+// Applied to accounts that have never saved preferences
+export const defaultUserPreferences: UserPreferences = {
+  emergencyWarnings: true,
+  watchesAdvisories: true,
+  smsNotifications: false,
+  emailAlerts: true,
+  disasterTypes: hazardCategories.map(hazard => hazard.id),
+  notificationRadius: 50,
 };
 
+export const webhookEventValues = ["disaster.created", "disaster.updated", "disaster.expired"] as const;
+
+export type WebhookEvent = typeof webhookEventValues[number];
+
+// Empty type lists match everything; area limits events to a radius around a point
+export const webhookFiltersSchema = z.object({
+  disasterTypes: z.array(z.enum(disasterTypeValues)),
+  alertTypes: z.array(z.enum(alertTypeValues)),
+  area: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    radius: z.number().positive().max(20000), // in km
+  }).nullable(),
+}).strict();
+
+export type WebhookFilters = z.infer<typeof webhookFiltersSchema>;
+
+// Body POSTed to a webhook. id is unique per delivery and repeated on retries.
+export type WebhookPayload = {
+  id: string;
+  event: WebhookEvent | "test";
+  createdAt: string;
+  data: Disaster;
+};
+
+// GeoJSON geometry of a disaster's footprint. Positions are [longitude, latitude].
+export type Position = [number, number];
+
+export type DisasterGeometry =
+  | { type: "Point"; coordinates: Position }
+  | { type: "Polygon"; coordinates: Position[][] }
+  | { type: "MultiPolygon"; coordinates: Position[][][] };
+
 export type DisasterData = {
   magnitude?: number; // For earthquakes
   windSpeed?: number; // For storms
@@ -71,11 +196,16 @@ export type DisasterData = {
 };
 
 // Zod schemas for insertion
-export const insertUserSchema = createInsertSchema(users).pick({
+// JSON columns are typed with $type<>, which drizzle-zod cannot see through,
+// so the insert schemas supply their validators explicitly
+export const insertUserSchema = createInsertSchema(users, {
+  preferences: userPreferencesSchema.nullish(),
+}).pick({
   username: true,
   password: true,
   email: true,
   phone: true,
+  phoneVerified: true,
   location: true,
   preferences: true,
 });
@@ -86,6 +216,8 @@ export const insertAlertHistorySchema = createInsertSchema(alertHistory).pick({
   disasterType: true,
   message: true,
   location: true,
+  externalId: true,
+  distance: true,
   timestamp: true,
   read: true,
 });
@@ -95,9 +227,13 @@ export const insertSavedLocationSchema = createInsertSchema(savedLocations).pick
   name: true,
   latitude: true,
   longitude: true,
+  position: true,
 });
 
-export const insertDisasterSchema = createInsertSchema(disasters).pick({
+export const insertDisasterSchema = createInsertSchema(disasters, {
+  geometry: z.custom<DisasterGeometry>().nullish(),
+  data: z.custom<DisasterData>().nullish(),
+}).pick({
   externalId: true,
   disasterType: true,
   alertType: true,
@@ -109,17 +245,104 @@ export const insertDisasterSchema = createInsertSchema(disasters).pick({
   source: true,
   timestamp: true,
   validUntil: true,
+  geometry: true,
   data: true,
 });
 
+export const insertNotificationDeliverySchema = createInsertSchema(notificationDeliveries).pick({
+  alertId: true,
+  userId: true,
+  channel: true,
+  recipient: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  lastAttemptAt: true,
+  sentAt: true,
+});
+
+export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions).pick({
+  userId: true,
+  endpoint: true,
+  p256dh: true,
+  auth: true,
+});
+
+export const insertWebhookSchema = createInsertSchema(webhooks, {
+  events: z.array(z.enum(webhookEventValues)).min(1),
+  filters: webhookFiltersSchema,
+}).pick({
+  userId: true,
+  url: true,
+  secret: true,
+  events: true,
+  filters: true,
+  active: true,
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries, {
+  payload: z.custom<WebhookPayload>(),
+}).pick({
+  webhookId: true,
+  event: true,
+  payload: true,
+  status: true,
+  attempts: true,
+  responseStatus: true,
+  lastError: true,
+  lastAttemptAt: true,
+  sentAt: true,
+});
+
+export const insertPhoneVerificationSchema = createInsertSchema(phoneVerifications).pick({
+  userId: true,
+  phone: true,
+  codeHash: true,
+  expiresAt: true,
+  attempts: true,
+  createdAt: true,
+});
+
+export const insertSourceStatusSchema = createInsertSchema(sourceStatus);
+
 // Types from schemas
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertAlertHistory = z.infer<typeof insertAlertHistorySchema>;
 export type InsertSavedLocation = z.infer<typeof insertSavedLocationSchema>;
 export type InsertDisaster = z.infer<typeof insertDisasterSchema>;
+export type InsertNotificationDelivery = z.infer<typeof insertNotificationDeliverySchema>;
+export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type InsertPhoneVerification = z.infer<typeof insertPhoneVerificationSchema>;
+export type InsertSourceStatus = z.infer<typeof insertSourceStatusSchema>;
 
 // Types from tables
 export type User = typeof users.$inferSelect;
 export type AlertHistory = typeof alertHistory.$inferSelect;
 export type SavedLocation = typeof savedLocations.$inferSelect;
 export type Disaster = typeof disasters.$inferSelect;
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type Webhook = typeof webhooks.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type PhoneVerification = typeof phoneVerifications.$inferSelect;
+export type SourceStatus = typeof sourceStatus.$inferSelect;
+
+// Reports from one or more sources that describe the same event, e.g. a NOAA
+// warning and the OpenWeatherMap alert for the same storm
+export type Incident = {
+  id: number; // id of the primary report
+  primary: Disaster; // the most severe report, shown for the whole incident
+  reports: Disaster[]; // every report, primary first
+  sources: string[];
+  declarations: DeclarationSummary[]; // active FEMA declarations covering the incident
+};
+
+// A federal disaster declaration, as listed with the incidents inside its area
+export type DeclarationSummary = {
+  disasterId: number; // the declaration's own disaster record
+  declaration: string; // e.g. DR-4798-TX
+  declarationType: string; // DR, EM or FM
+  title: string;
+};
@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Server tests run in Node against in-memory storage, so no database is needed
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "client", "src"),
+      "@shared": path.resolve(__dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+  },
+});